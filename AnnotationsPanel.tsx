@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Flag, Plus, Trash2, Upload } from 'lucide-react';
+import { DateRange, EventAnnotation, MovementDataset, RegionEntry } from '../types';
+import { WHOLE_COUNTRY_OPTION } from '../services/aggregationService';
+import {
+  ANNOTATION_CATEGORIES,
+  categoryColor,
+  createAnnotation,
+  formatAnnotationsCsv,
+  mergeAnnotations,
+  parseAnnotationFile,
+} from '../services/annotationService';
+import { downloadFile } from '../services/exportService';
+
+interface AnnotationsPanelProps {
+  data: MovementDataset;
+  countries: string[];
+  regionsOf: (country: string) => RegionEntry[];
+  extent: DateRange | null;
+  annotations: EventAnnotation[];
+  onChange: (annotations: EventAnnotation[]) => void;
+}
+
+const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({
+  data,
+  countries,
+  regionsOf,
+  extent,
+  annotations,
+  onChange,
+}) => {
+  const [ds, setDs] = useState(extent?.start ?? '');
+  const [country, setCountry] = useState(countries[0] ?? '');
+  const [region, setRegion] = useState(WHOLE_COUNTRY_OPTION);
+  const [label, setLabel] = useState('');
+  const [category, setCategory] = useState(ANNOTATION_CATEGORIES[0].id);
+  const [error, setError] = useState<string | null>(null);
+
+  // Events name a polygon_id; show the region it belongs to where the data has it
+  const polygonNames = useMemo(() => new Map(data.polygons.map(p => [p.polygon_id, p.polygon_name])), [data]);
+
+  const handleAdd = () => {
+    if (!ds || !country || !label.trim()) return;
+    const entry = region === WHOLE_COUNTRY_OPTION ? undefined : regionsOf(country).find(r => r.key === region);
+    const polygon = entry && data.polygons[entry.polygon];
+    onChange(mergeAnnotations(annotations, [
+      createAnnotation({ ds, country, label: label.trim(), category, ...(polygon ? { polygon_id: polygon.polygon_id } : {}) }),
+    ]));
+    setLabel('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      onChange(mergeAnnotations(annotations, await parseAnnotationFile(file)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the events file.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden animate-in fade-in slide-in-from-top-2">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row justify-between items-center gap-4">
+        <div className="flex items-center gap-4">
+          <Flag className="w-5 h-5 text-slate-500" />
+          <h3 className="font-bold text-slate-800">Events</h3>
+          <span className="text-xs text-slate-400 bg-white px-2 py-1 border rounded">{annotations.length} events</span>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center px-3 py-2 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 cursor-pointer transition-all">
+            <Upload className="w-4 h-4 mr-1.5" />
+            Import
+            <input type="file" accept=".csv,.tsv,.txt,.json" className="hidden" onChange={handleImport} />
+          </label>
+          <button
+            onClick={() => downloadFile('events.csv', formatAnnotationsCsv(annotations), 'text/csv')}
+            disabled={annotations.length === 0}
+            className="flex items-center px-3 py-2 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4 mr-1.5" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap items-center gap-3">
+        <input
+          type="date"
+          value={ds}
+          min={extent?.start}
+          max={extent?.end}
+          onChange={(e) => setDs(e.target.value)}
+          className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+        />
+        <select
+          className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+          value={country}
+          onChange={(e) => { setCountry(e.target.value); setRegion(WHOLE_COUNTRY_OPTION); }}
+        >
+          {countries.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <select
+          className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2 max-w-[200px]"
+          value={region}
+          onChange={(e) => setRegion(e.target.value)}
+        >
+          <option value={WHOLE_COUNTRY_OPTION}>{WHOLE_COUNTRY_OPTION}</option>
+          {regionsOf(country).map(r => <option key={r.key} value={r.key}>{r.name}</option>)}
+        </select>
+        <input
+          type="text"
+          value={label}
+          placeholder="Label, e.g. National lockdown"
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          className="flex-1 min-w-[160px] bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+        />
+        <select
+          className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+        >
+          {ANNOTATION_CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!ds || !label.trim()}
+          className="flex items-center px-3 py-2 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4 mr-1.5" />
+          Add Event
+        </button>
+      </div>
+
+      {error && <p className="px-6 pt-3 text-sm text-red-600">{error}</p>}
+
+      {annotations.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-6">
+          Add events above or import a table with date, country, label and optional polygon_id and category columns.
+        </p>
+      ) : (
+        <div className="max-h-[300px] overflow-y-auto">
+          <table className="w-full text-sm text-left text-slate-600">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-6 py-3">Date</th>
+                <th className="px-6 py-3">Scope</th>
+                <th className="px-6 py-3">Event</th>
+                <th className="px-6 py-3">Category</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {annotations.map(e => (
+                <tr key={e.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-3 text-xs whitespace-nowrap">{e.ds}</td>
+                  <td className="px-6 py-3 text-xs">
+                    {e.country}
+                    {e.polygon_id && <span className="text-slate-400"> · {polygonNames.get(e.polygon_id) ?? e.polygon_id}</span>}
+                  </td>
+                  <td className="px-6 py-3 font-medium text-slate-900">{e.label}</td>
+                  <td className="px-6 py-3 text-xs">
+                    <span className="flex items-center">
+                      <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: categoryColor(e.category) }}></span>
+                      {ANNOTATION_CATEGORIES.find(c => c.id === e.category)?.label ?? e.category}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => onChange(annotations.filter(a => a.id !== e.id))}
+                      className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                      title="Delete event"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationsPanel;
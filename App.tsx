@@ -1,39 +1,265 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import FileUpload from './components/FileUpload';
 import Dashboard from './components/Dashboard';
-import { MovementRecord } from './types';
-import { parseMovementData } from './services/dataService';
+import { CachedDatasetEntry, ColumnMapping, DataSource, DedupeRule, FilePreview, IngestProgress, ValidationMode } from './types';
+import { isAbortError, previewMovementFile, streamMovementFile, StreamResult } from './services/ingestService';
+import { createSourceId, mergeSources } from './services/sourceService';
+import { needsColumnMapping } from './services/columnMappingService';
+import {
+  CacheKey,
+  clearDatasetCache,
+  evictCachedDataset,
+  getCacheKey,
+  listCachedDatasets,
+  loadCachedDataset,
+  saveCachedDataset,
+  withColumnMapping,
+} from './services/datasetCacheService';
+
+interface PendingDataset extends StreamResult {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  cacheKey: CacheKey | null;
+  fromCache: boolean;
+}
+
+interface PendingMapping {
+  file: File;
+  mode: ValidationMode;
+  preview: FilePreview;
+  cacheKey: CacheKey | null;
+}
 
 const App: React.FC = () => {
-  const [data, setData] = useState<MovementRecord[] | null>(null);
+  // Every loaded file is kept separately; the dashboard sees them merged into one dataset
+  const [sources, setSources] = useState<DataSource[]>([]);
+  const [dedupeRule, setDedupeRule] = useState<DedupeRule>('newest');
+  const [isAddingFile, setIsAddingFile] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<IngestProgress | null>(null);
+  const [pending, setPending] = useState<PendingDataset | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+  const [recentDatasets, setRecentDatasets] = useState<CachedDatasetEntry[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refreshRecentDatasets = useCallback(() => {
+    listCachedDatasets()
+      .then(setRecentDatasets)
+      .catch((error) => console.warn("Dataset cache unavailable", error));
+  }, []);
+
+  useEffect(() => {
+    refreshRecentDatasets();
+  }, [refreshRecentDatasets]);
 
-  const handleDataLoaded = useCallback((content: string) => {
+  const parseFile = useCallback(async (file: File, mode: ValidationMode, cacheKey: CacheKey | null, mapping?: ColumnMapping) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
-    // Use setTimeout to allow the UI to show the loading spinner before the heavy parsing starts
-    setTimeout(() => {
-      try {
-        const parsedData = parseMovementData(content);
-        setData(parsedData);
-      } catch (error) {
+    setProgress({ bytesRead: 0, totalBytes: file.size, rows: 0 });
+
+    try {
+      // Parsing runs in a worker, so the UI stays responsive and can show progress
+      const result = await streamMovementFile(file, {
+        mode,
+        mapping,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      // Hold the dataset back until the user has seen the parse report
+      setPending({ ...result, id: createSourceId(file), fileName: file.name, fileSize: file.size, cacheKey, fromCache: false });
+    } catch (error) {
+      if (!isAbortError(error)) {
         console.error("Failed to parse data", error);
         alert("Failed to parse the file. Please ensure it is the correct format.");
-      } finally {
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsLoading(false);
+      setProgress(null);
+    }
+  }, []);
+
+  // A file parsed before under the same key reopens from the cache without being read again
+  const openFromCache = useCallback(async (file: File, cacheKey: CacheKey | null): Promise<boolean> => {
+    const cached = cacheKey && await loadCachedDataset(cacheKey.key).catch(() => null);
+    if (!cached) return false;
+    setPending({
+      dataset: cached.dataset,
+      report: cached.report,
+      id: createSourceId(file),
+      fileName: file.name,
+      fileSize: file.size,
+      cacheKey,
+      fromCache: true,
+    });
+    return true;
+  }, []);
+
+  const handleFileSelected = useCallback(async (file: File, mode: ValidationMode) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setProgress({ bytesRead: 0, totalBytes: file.size, rows: 0 });
+
+    let cacheKey: CacheKey | null = null;
+    let preview: FilePreview;
+    try {
+      // Hashing reads the whole file, so it reports progress and stops as soon as the user cancels
+      cacheKey = await getCacheKey(file, mode, {
+        signal: controller.signal,
+        onProgress: (bytesRead) => setProgress({ bytesRead, totalBytes: file.size, rows: 0 }),
+      }).catch((error) => {
+        if (isAbortError(error)) throw error;
+        return null;
+      });
+      if (await openFromCache(file, cacheKey)) {
         setIsLoading(false);
+        setProgress(null);
+        return;
       }
-    }, 100);
+      setProgress({ bytesRead: 0, totalBytes: file.size, rows: 0 });
+
+      // Peek at the header first: files with other column names go through the mapping step
+      preview = await previewMovementFile(file, controller.signal);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Failed to read file", error);
+        alert("Failed to read the file. Please ensure it is the correct format.");
+      }
+      setIsLoading(false);
+      setProgress(null);
+      return;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+
+    if (needsColumnMapping(preview.columns)) {
+      setIsLoading(false);
+      setProgress(null);
+      setPendingMapping({ file, mode, preview, cacheKey });
+      return;
+    }
+    parseFile(file, mode, cacheKey);
+  }, [parseFile, openFromCache]);
+
+  // Mapped files are looked up again under their mapping, which is part of the cache key
+  const handleConfirmMapping = async (mapping: ColumnMapping) => {
+    if (!pendingMapping) return;
+    const { file, mode, cacheKey } = pendingMapping;
+    setPendingMapping(null);
+    const mappedKey = cacheKey && withColumnMapping(cacheKey, mapping);
+    if (await openFromCache(file, mappedKey)) return;
+    parseFile(file, mode, mappedKey, mapping);
+  };
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
   }, []);
 
+  const data = useMemo(() => mergeSources(sources, dedupeRule), [sources, dedupeRule]);
+
+  const handleConfirmReport = () => {
+    if (!pending) return;
+    const { id, fileName, fileSize, dataset, report, cacheKey, fromCache } = pending;
+    setSources(prev => [...prev, { id, fileName, fileSize, loadedAt: Date.now(), dataset, report, cacheKey: cacheKey?.key }]);
+    setPending(null);
+    setIsAddingFile(false);
+
+    // Cache only what the user accepted, so rejected parses never come back from the recent list
+    if (cacheKey && !fromCache) {
+      saveCachedDataset({ name: fileName, size: fileSize }, cacheKey, dataset, report)
+        .then(refreshRecentDatasets)
+        .catch((error) => console.warn("Could not cache the dataset", error));
+    }
+  };
+
+  const handleOpenRecent = async (key: string) => {
+    try {
+      const cached = await loadCachedDataset(key);
+      if (!cached) return;
+      const { entry, dataset, report } = cached;
+      setSources(prev => [...prev, {
+        id: createSourceId({ name: entry.fileName, size: entry.fileSize }),
+        fileName: entry.fileName,
+        fileSize: entry.fileSize,
+        loadedAt: Date.now(),
+        dataset,
+        report,
+        cacheKey: key,
+      }]);
+      setIsAddingFile(false);
+    } catch (error) {
+      console.error("Failed to open cached dataset", error);
+      alert("The cached dataset could not be read. Please upload the file again.");
+    } finally {
+      refreshRecentDatasets();
+    }
+  };
+
+  const handleEvictRecent = (key: string) => {
+    evictCachedDataset(key).finally(refreshRecentDatasets);
+  };
+
+  const handleClearRecent = () => {
+    clearDatasetCache().finally(refreshRecentDatasets);
+  };
+
+  const handleDiscardReport = () => {
+    setPending(null);
+  };
+
+  const handleRemoveSource = (id: string) => {
+    setSources(prev => prev.filter(s => s.id !== id));
+  };
+
   const handleReset = () => {
-    setData(null);
+    setSources([]);
   };
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans">
-      {!data ? (
-        <FileUpload onDataLoaded={handleDataLoaded} isLoading={isLoading} />
-      ) : (
-        <Dashboard data={data} onReset={handleReset} />
+      {(!data || isAddingFile) && (
+        <FileUpload
+          onFileSelected={handleFileSelected}
+          onCancel={handleCancel}
+          onConfirmReport={handleConfirmReport}
+          onDiscardReport={handleDiscardReport}
+          isLoading={isLoading}
+          progress={progress}
+          pendingMapping={pendingMapping && {
+            fileName: pendingMapping.file.name,
+            preview: pendingMapping.preview,
+          }}
+          onConfirmMapping={handleConfirmMapping}
+          onDiscardMapping={() => setPendingMapping(null)}
+          recentDatasets={recentDatasets}
+          loadedDatasetKeys={sources.map(s => s.cacheKey).filter((key): key is string => !!key)}
+          onOpenRecent={handleOpenRecent}
+          onEvictRecent={handleEvictRecent}
+          onClearRecent={handleClearRecent}
+          pendingReport={pending && {
+            fileName: pending.fileName,
+            report: pending.report,
+            rowCount: pending.dataset.rowCount,
+          }}
+          onBack={data ? () => setIsAddingFile(false) : undefined}
+        />
+      )}
+      {/* Kept mounted while a file is being added so the current selections survive */}
+      {data && (
+        <div className={isAddingFile ? 'hidden' : ''}>
+          <Dashboard
+            data={data}
+            sources={sources}
+            dedupeRule={dedupeRule}
+            onDedupeRuleChange={setDedupeRule}
+            onAddFile={() => setIsAddingFile(true)}
+            onRemoveSource={handleRemoveSource}
+            onReset={handleReset}
+          />
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,64 @@
+import React, { useMemo } from 'react';
+import { Ruler } from 'lucide-react';
+import { MovementDataset } from '../types';
+import { getBaselineTypes } from '../services/baselineService';
+
+interface BaselineControlProps {
+  data: MovementDataset; // the loaded data, before any baseline filter
+  baselineType: string | null; // null keeps every baseline
+  onChange: (baselineType: string | null) => void;
+}
+
+// Select value for no filter; files without the column have an empty baseline type of their own
+const ALL_BASELINES = '*';
+
+const BaselineControl: React.FC<BaselineControlProps> = ({ data, baselineType, onChange }) => {
+  const types = useMemo(() => getBaselineTypes(data), [data]);
+  const selected = types.find(t => t.type === baselineType);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 px-4 py-3">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-sm">
+          <Ruler className="w-5 h-5 text-slate-500" />
+          {types.length === 1 ? (
+            <span className="text-slate-700">
+              Every row is measured against a <span className="font-semibold">{types[0].type || 'unnamed'}</span> baseline
+            </span>
+          ) : selected ? (
+            <span className="text-slate-700">
+              Showing only rows with a <span className="font-semibold">{selected.type || 'unnamed'}</span> baseline
+              <span className="text-slate-400"> · {selected.rows.toLocaleString()} of {data.rowCount.toLocaleString()} rows · {selected.countries} countries</span>
+            </span>
+          ) : (
+            <span className="text-slate-700">
+              The data mixes <span className="font-semibold">{types.length} baseline types</span>
+              <span className="text-slate-400"> · {types.map(t => `${t.type || 'unnamed'} ${Math.round((t.rows / data.rowCount) * 100)}%`).join(' · ')}</span>
+            </span>
+          )}
+        </div>
+
+        {types.length > 1 && (
+          <select
+            className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+            value={baselineType ?? ALL_BASELINES}
+            onChange={(e) => onChange(e.target.value === ALL_BASELINES ? null : e.target.value)}
+            title="Baseline type"
+          >
+            <option value={ALL_BASELINES}>All baselines</option>
+            {types.map(t => (
+              <option key={t.type} value={t.type}>{t.type || 'Unnamed'} only ({t.countries} countries)</option>
+            ))}
+          </select>
+        )}
+      </div>
+      {types.length > 1 && !selected && (
+        <p className="mt-1 ml-8 text-xs text-slate-400">
+          Values measured against different baselines are not directly comparable; pick one type to analyse it on its own.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BaselineControl;
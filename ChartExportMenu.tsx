@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { CsvTable, ExportMeta, LegendEntry, buildChartSvg, buildCsv, downloadFile, exportFileName, svgToPngBlob } from '../services/exportService';
+
+interface ChartExportMenuProps {
+  meta: ExportMeta;
+  // The element wrapping a chart; omitted for tables, which only offer CSV
+  target?: () => HTMLElement | null;
+  legend?: LegendEntry[];
+  csv?: () => CsvTable;
+}
+
+const ChartExportMenu: React.FC<ChartExportMenuProps> = ({ meta, target, legend = [], csv }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileParts = [meta.title, ...meta.details.slice(0, 1)];
+
+  const renderSvg = () => {
+    const element = target?.();
+    const rendered = element ? buildChartSvg(element, meta, legend) : null;
+    if (!rendered) setError('The chart has not been drawn yet.');
+    return rendered;
+  };
+
+  const handleSvg = () => {
+    setError(null);
+    const rendered = renderSvg();
+    if (rendered) downloadFile(exportFileName(fileParts, 'svg'), rendered.svg, 'image/svg+xml');
+  };
+
+  const handlePng = async () => {
+    setError(null);
+    const rendered = renderSvg();
+    if (!rendered) return;
+    try {
+      downloadFile(exportFileName(fileParts, 'png'), await svgToPngBlob(rendered.svg, rendered.width, rendered.height), 'image/png');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not export the chart.');
+    }
+  };
+
+  const handleCsv = () => {
+    downloadFile(exportFileName(fileParts, 'csv'), buildCsv(meta, csv!()), 'text/csv');
+  };
+
+  const buttonClass = 'px-2 py-0.5 rounded-md text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-white transition-all';
+
+  return (
+    <div className="flex items-center gap-1" title={error ?? undefined}>
+      <div className="flex items-center bg-slate-100 rounded-lg p-1">
+        <Download className={`w-3.5 h-3.5 mx-1 ${error ? 'text-red-500' : 'text-slate-400'}`} />
+        {target && <button onClick={handlePng} className={buttonClass}>PNG</button>}
+        {target && <button onClick={handleSvg} className={buttonClass}>SVG</button>}
+        {csv && <button onClick={handleCsv} className={buttonClass}>CSV</button>}
+      </div>
+    </div>
+  );
+};
+
+export default ChartExportMenu;
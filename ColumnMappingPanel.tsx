@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { AlertCircle, Columns2, Save, Trash2, XCircle } from 'lucide-react';
+import { ColumnMapping, FilePreview, MovementRecord, SavedColumnMapping } from '../types';
+import { REQUIRED_COLUMNS } from '../services/validationService';
+import {
+  deleteSavedMapping,
+  findDuplicateSources,
+  findSavedMapping,
+  KEY_FIELDS,
+  loadSavedMappings,
+  saveColumnMapping,
+  suggestColumnMapping,
+} from '../services/columnMappingService';
+import { INPUT_FORMATS } from '../services/formatService';
+
+interface ColumnMappingPanelProps {
+  fileName: string;
+  preview: FilePreview;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onDiscard: () => void;
+}
+
+const ColumnMappingPanel: React.FC<ColumnMappingPanelProps> = ({ fileName, preview, onConfirm, onDiscard }) => {
+  const [savedMappings, setSavedMappings] = useState<SavedColumnMapping[]>(loadSavedMappings);
+  // Start from a saved mapping that fits this header, otherwise from name-based suggestions
+  const [appliedName, setAppliedName] = useState<string>(() => findSavedMapping(preview.columns, savedMappings)?.name ?? '');
+  const [mapping, setMapping] = useState<ColumnMapping>(
+    () => findSavedMapping(preview.columns, savedMappings)?.mapping ?? suggestColumnMapping(preview.columns)
+  );
+  const [saveName, setSaveName] = useState('');
+
+  const duplicates = findDuplicateSources(mapping);
+  const missingKeys = KEY_FIELDS.filter(f => !mapping[f]);
+  const canContinue = missingKeys.length === 0 && duplicates.length === 0;
+
+  const setField = (field: keyof MovementRecord, source: string) => {
+    setMapping(prev => ({ ...prev, [field]: source || undefined }));
+    setAppliedName('');
+  };
+
+  const applySaved = (name: string) => {
+    setAppliedName(name);
+    const saved = savedMappings.find(m => m.name === name);
+    // Ignore saved columns this file does not have
+    setMapping(saved
+      ? Object.fromEntries(Object.entries(saved.mapping).filter(([, source]) => source && preview.columns.includes(source)))
+      : suggestColumnMapping(preview.columns));
+  };
+
+  const handleDelete = () => {
+    setSavedMappings(deleteSavedMapping(appliedName));
+    setAppliedName('');
+  };
+
+  const handleConfirm = () => {
+    if (saveName.trim()) setSavedMappings(saveColumnMapping(saveName.trim(), mapping));
+    onConfirm(mapping);
+  };
+
+  const sampleFor = (source: string | undefined) => {
+    if (!source) return '';
+    const index = preview.columns.indexOf(source);
+    return preview.rows.find(r => r[index])?.[index] ?? '';
+  };
+
+  const fieldBySource = new Map(Object.entries(mapping).map(([field, source]) => [source, field]));
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+        <div className="flex items-center gap-3 min-w-0">
+          <Columns2 className="w-5 h-5 text-slate-500 shrink-0" />
+          <div className="min-w-0">
+            <h2 className="font-bold text-slate-800">Map Columns</h2>
+            <p className="text-xs text-slate-500 truncate">
+              {fileName}
+              {preview.entryName !== fileName && <span className="text-slate-400"> → {preview.entryName}</span>}
+              <span className="text-slate-400"> · {INPUT_FORMATS.find(f => f.id === preview.format)?.label}</span>
+            </p>
+          </div>
+        </div>
+        {savedMappings.length > 0 && (
+          <div className="flex items-center gap-2">
+            <select
+              className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+              value={appliedName}
+              onChange={(e) => applySaved(e.target.value)}
+            >
+              <option value="">Suggested mapping</option>
+              {savedMappings.map(m => (
+                <option key={m.name} value={m.name}>{m.name}</option>
+              ))}
+            </select>
+            {appliedName && (
+              <button
+                onClick={handleDelete}
+                className="text-slate-400 hover:text-red-600 transition-colors"
+                title="Delete this saved mapping"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="p-6 space-y-5">
+        <p className="text-sm text-slate-600">
+          This file does not use the Movement Range column names. Choose which column holds each field.
+        </p>
+
+        <table className="w-full text-sm text-left text-slate-600">
+          <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+            <tr>
+              <th className="px-3 py-2">Field</th>
+              <th className="px-3 py-2">Source Column</th>
+              <th className="px-3 py-2">First Value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {REQUIRED_COLUMNS.map(field => (
+              <tr key={field}>
+                <td className="px-3 py-2 font-mono text-xs">
+                  {field}
+                  {KEY_FIELDS.includes(field) && <span className="text-red-500 ml-1">*</span>}
+                </td>
+                <td className="px-3 py-2">
+                  <select
+                    className={`bg-white border text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-1.5 w-full ${
+                      mapping[field] && duplicates.includes(mapping[field]!) ? 'border-red-400' : 'border-slate-300'
+                    }`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setField(field, e.target.value)}
+                  >
+                    <option value="">— not in file —</option>
+                    {preview.columns.map(c => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-2 font-mono text-xs text-slate-400 truncate max-w-[10rem]">{sampleFor(mapping[field])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {preview.rows.length > 0 && (
+          <details className="text-xs" open>
+            <summary className="cursor-pointer text-slate-500 font-medium">First {preview.rows.length} rows</summary>
+            <div className="mt-2 overflow-x-auto border border-slate-100 rounded">
+              <table className="w-full text-left text-slate-600 whitespace-nowrap">
+                <thead className="bg-slate-50">
+                  <tr>
+                    {preview.columns.map(c => (
+                      <th key={c} className="px-2 py-1 font-mono font-medium">
+                        {c}
+                        {fieldBySource.has(c) && fieldBySource.get(c) !== c && (
+                          <span className="block text-blue-600 font-normal">→ {fieldBySource.get(c)}</span>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {preview.rows.map((row, i) => (
+                    <tr key={i}>
+                      {preview.columns.map((c, j) => (
+                        <td key={c} className="px-2 py-1 font-mono">{row[j] || '∅'}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </details>
+        )}
+
+        {(missingKeys.length > 0 || duplicates.length > 0) && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-start">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+            <span>
+              {missingKeys.length > 0 && <>Map a column to <span className="font-mono">{missingKeys.join(', ')}</span>. </>}
+              {duplicates.length > 0 && <>Each column can feed only one field: <span className="font-mono">{duplicates.join(', ')}</span>.</>}
+            </span>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Save className="w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="Save this mapping as… (optional)"
+            className="flex-1 bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+          />
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            onClick={onDiscard}
+            className="flex items-center px-4 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-600 border border-slate-200 hover:bg-slate-200 transition-all"
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            Choose Another File
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!canContinue}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all"
+          >
+            Parse File
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingPanel;
@@ -0,0 +1,192 @@
+import React, { useMemo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { AggregateResult, EventAnnotation, RegionStats, SmoothingConfig } from '../types';
+import { averageCoverage, averageOfRegions } from '../services/aggregationService';
+import { buildCountryReport } from '../services/reportService';
+import { describeSmoothing, smoothRows } from '../services/smoothingService';
+import { categoryColor } from '../services/annotationService';
+
+interface CountryReportProps {
+  country: string;
+  aggregate: AggregateResult;
+  weighting: string;
+  mobilitySmoothing: SmoothingConfig;
+  staySmoothing: SmoothingConfig;
+  events: EventAnnotation[];
+  onClose: () => void;
+}
+
+// Charts are drawn at a fixed size that fits an A4 page, so printing does not depend on the window width
+const CHART_WIDTH = 680;
+const CHART_HEIGHT = 220;
+
+const formatPercent = (value: number | null, digits = 1) =>
+  value === null ? '—' : `${(value * 100).toFixed(digits)}%`;
+
+const ReportChart: React.FC<{
+  title: string;
+  subtitle: string;
+  rows: { ds: string }[];
+  dataKey: string;
+  color: string;
+  events: EventAnnotation[];
+  baseline?: boolean;
+}> = ({ title, subtitle, rows, dataKey, color, events, baseline }) => (
+  <section className="break-inside-avoid mb-8">
+    <h3 className="text-base font-bold text-slate-800">{title}</h3>
+    <p className="text-xs text-slate-500 mb-2">{subtitle}</p>
+    <AreaChart width={CHART_WIDTH} height={CHART_HEIGHT} data={rows} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+      <XAxis dataKey="ds" tick={{ fontSize: 10 }} stroke="#94a3b8" minTickGap={40} />
+      <YAxis tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} tick={{ fontSize: 10 }} stroke="#94a3b8" />
+      {events.map(e => <ReferenceLine key={e.id} x={e.ds} stroke={categoryColor(e.category)} strokeDasharray="2 4" />)}
+      {baseline && <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="3 3" />}
+      <Area type="monotone" dataKey={dataKey} stroke={color} fill={color} fillOpacity={0.1} isAnimationActive={false} />
+    </AreaChart>
+  </section>
+);
+
+const RegionTable: React.FC<{ title: string; regions: RegionStats[] }> = ({ title, regions }) => (
+  <section className="break-inside-avoid mb-8">
+    <h3 className="text-base font-bold text-slate-800 mb-2">{title}</h3>
+    <table className="w-full text-sm text-left text-slate-600 border border-slate-200">
+      <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+        <tr>
+          <th className="px-3 py-2">Region</th>
+          <th className="px-3 py-2 text-right">Avg Mobility</th>
+          <th className="px-3 py-2 text-right">Min Mobility</th>
+          <th className="px-3 py-2 text-right">Avg Stay Home</th>
+          <th className="px-3 py-2 text-right">Coverage</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {regions.map(r => (
+          <tr key={r.key}>
+            <td className="px-3 py-2 font-medium text-slate-900">{r.name}</td>
+            <td className="px-3 py-2 text-right">{formatPercent(r.avgMobility)}</td>
+            <td className="px-3 py-2 text-right">{formatPercent(r.minMobility)}</td>
+            <td className="px-3 py-2 text-right">{formatPercent(r.avgStay)}</td>
+            <td className="px-3 py-2 text-right">{(r.coverage * 100).toFixed(0)}%</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </section>
+);
+
+// A print-ready briefing for one country. The toolbar is hidden when printing; the browser's
+// print dialog saves the document as a PDF, with the region tables starting on a new page.
+const CountryReport: React.FC<CountryReportProps> = ({
+  country,
+  aggregate,
+  weighting,
+  mobilitySmoothing,
+  staySmoothing,
+  events,
+  onClose,
+}) => {
+  const { findings, topRegions, bottomRegions } = useMemo(() => buildCountryReport(country, aggregate), [country, aggregate]);
+  const mobilityRows = useMemo(() => smoothRows(aggregate.trend, ['avgMobility'], mobilitySmoothing), [aggregate, mobilitySmoothing]);
+  const stayRows = useMemo(() => smoothRows(aggregate.trend, ['avgStay'], staySmoothing), [aggregate, staySmoothing]);
+
+  const { trend, matrix } = aggregate;
+  const period = trend.length > 0 ? `${trend[0].ds} — ${trend[trend.length - 1].ds}` : 'No data in range';
+  const avgMobility = averageOfRegions(matrix, 'avgMobility');
+
+  return (
+    <div className="min-h-screen bg-slate-100 print:bg-white">
+      <div className="print:hidden sticky top-0 z-50 bg-slate-900 text-white shadow-lg">
+        <div className="max-w-[800px] mx-auto px-4 py-3 flex items-center justify-between">
+          <button
+            onClick={onClose}
+            className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-full transition-colors flex items-center border border-slate-700"
+          >
+            <ArrowLeft className="w-3 h-3 mr-1.5" />
+            Back to Dashboard
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-blue-600 hover:bg-blue-700 transition-colors"
+          >
+            <Printer className="w-3 h-3 mr-1.5" />
+            Print / Save as PDF
+          </button>
+        </div>
+      </div>
+
+      <article className="max-w-[800px] mx-auto my-8 print:my-0 bg-white p-12 print:p-0 shadow-sm print:shadow-none text-slate-900">
+        <header className="border-b border-slate-200 pb-4 mb-6">
+          <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Movement Range Briefing</p>
+          <h1 className="text-2xl font-bold text-slate-800">{country}</h1>
+          <p className="text-sm text-slate-500">{period} · {weighting} · Generated {new Date().toISOString().slice(0, 10)}</p>
+        </header>
+
+        <section className="grid grid-cols-3 gap-4 mb-6 break-inside-avoid">
+          <div className="p-4 rounded-lg border border-slate-200">
+            <p className="text-xs text-slate-500 font-medium mb-1">Regions Tracked</p>
+            <p className="text-2xl font-bold text-slate-800">{aggregate.totalRegions}</p>
+          </div>
+          <div className="p-4 rounded-lg border border-slate-200">
+            <p className="text-xs text-slate-500 font-medium mb-1">Avg Mobility Change</p>
+            <p className={`text-2xl font-bold ${avgMobility === null ? 'text-slate-400' : avgMobility < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatPercent(avgMobility)}
+            </p>
+          </div>
+          <div className="p-4 rounded-lg border border-slate-200">
+            <p className="text-xs text-slate-500 font-medium mb-1">Avg Stay Home</p>
+            <p className="text-2xl font-bold text-slate-800">{formatPercent(averageOfRegions(matrix, 'avgStay'))}</p>
+            <p className="text-xs text-slate-400 mt-1">{(averageCoverage(trend) * 100).toFixed(0)}% daily coverage</p>
+          </div>
+        </section>
+
+        <section className="mb-8 break-inside-avoid">
+          <h3 className="text-base font-bold text-slate-800 mb-2">Key Findings</h3>
+          <ul className="list-disc pl-5 space-y-1 text-sm text-slate-700">
+            {findings.map((f, i) => <li key={i}>{f}</li>)}
+          </ul>
+        </section>
+
+        <ReportChart
+          title="Mobility Trend"
+          subtitle={`Change in movement against the baseline · ${describeSmoothing(mobilitySmoothing)}`}
+          rows={mobilityRows}
+          dataKey="avgMobility"
+          color="#3b82f6"
+          events={events}
+          baseline
+        />
+        <ReportChart
+          title="Stay-at-Home Trend"
+          subtitle={`Share of people staying within a single tile · ${describeSmoothing(staySmoothing)}`}
+          rows={stayRows}
+          dataKey="avgStay"
+          color="#8b5cf6"
+          events={events}
+        />
+
+        {events.length > 0 && (
+          <section className="mb-8 break-inside-avoid">
+            <h3 className="text-base font-bold text-slate-800 mb-2">Events</h3>
+            <ul className="space-y-1 text-sm text-slate-700">
+              {events.map(e => (
+                <li key={e.id} className="flex items-center">
+                  <span className="w-2 h-2 rounded-full mr-2 shrink-0" style={{ backgroundColor: categoryColor(e.category) }}></span>
+                  <span className="text-xs text-slate-500 w-24 shrink-0">{e.ds}</span>
+                  {e.label}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <div className="break-before-page">
+          <RegionTable title="Lowest Mobility Regions" regions={bottomRegions} />
+          <RegionTable title="Highest Mobility Regions" regions={topRegions} />
+        </div>
+      </article>
+    </div>
+  );
+};
+
+export default CountryReport;
@@ -1,4 +1,4 @@
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useCallback, useMemo, useRef, useState, useEffect } from 'react';
 import {
   LineChart,
   Line,
@@ -11,6 +11,8 @@ import {
   AreaChart,
   Area,
   ReferenceLine,
+  ReferenceDot,
+  Brush,
 } from 'recharts';
 import { 
   Activity, 
@@ -24,353 +26,642 @@ import {
   ArrowUpDown,
   MapPin,
   Globe,
-  Map as MapIcon
+  Database,
+  Flag,
+  FileText,
+  Search,
+  ChevronRight,
+  ChevronDown
 } from 'lucide-react';
-import { MovementRecord } from '../types';
+import {
+  AggregateResult,
+  DataSource,
+  DateRange,
+  DedupeRule,
+  EventAnnotation,
+  MovementDataset,
+  MovementMetric,
+  ParentMapping,
+  PopulationTable,
+  RegionEntry,
+  RegionStats,
+  SeriesSelection,
+  SeriesSpec,
+  SmoothingConfig,
+  SortConfig,
+} from '../types';
 import { getRegionsByCountry, getUniqueCountries } from '../services/dataService';
+import {
+  WHOLE_COUNTRY_OPTION,
+  averageCoverage,
+  averageOfRegions,
+  calculateCountryAggregates,
+  calculateRegionsAggregate,
+  calculateSeriesAggregate,
+  calculateStats,
+  getNormalizedSeries,
+} from '../services/aggregationService';
+import { readViewStateFromHash, writeViewStateToHash } from '../services/urlStateService';
+import { BoundaryLayer } from '../services/geoService';
+import { getDatasetExtent, normalizeDateRange } from '../services/dateRangeService';
+import { MAX_SERIES, createSeries, mergeSeriesByDate, sanitizeSeries, seriesColor, seriesLabel } from '../services/seriesService';
+import { NO_SMOOTHING, describeSmoothing, isSmoothing, rawKey, smoothRows } from '../services/smoothingService';
+import { CsvTable, LegendEntry } from '../services/exportService';
+import { annotationsForScopes, categoryColor, getSeriesScope, loadAnnotations, saveAnnotations } from '../services/annotationService';
+import { SeriesShifts, detectSeriesShifts } from '../services/anomalyService';
+import { filterByBaselineType, getSeriesBaselines } from '../services/baselineService';
+import { countChildren, filterByPolygonSource, getChildRegions } from '../services/adminLevelService';
+import { getRegionCurves } from '../services/similarityService';
+import { calculatePhaseMetrics, withPhaseMetrics } from '../services/phaseMetricsService';
+import AnnotationsPanel from './AnnotationsPanel';
+import BaselineControl from './BaselineControl';
+import ChartExportMenu from './ChartExportMenu';
+import CountryReport from './CountryReport';
+import DataSourcesPanel from './DataSourcesPanel';
+import DateRangeControl from './DateRangeControl';
+import PhaseMetricsCards, { PhaseMetricsItem } from './PhaseMetricsCards';
+import PolygonSourceControl from './PolygonSourceControl';
+import PopulationWeightsControl from './PopulationWeightsControl';
+import RegionHeatmapPanel from './RegionHeatmapPanel';
+import RegionMapPanel from './RegionMapPanel';
+import RegionShiftsPanel from './RegionShiftsPanel';
+import RegionSimilarityPanel from './RegionSimilarityPanel';
+import SeriesBaselines, { SeriesBaselineItem } from './SeriesBaselines';
+import SeriesListEditor from './SeriesListEditor';
+import SmoothingControl from './SmoothingControl';
+
+// Missing values render as a dash rather than 0%
+const formatPercent = (value: number | null | undefined, digits = 2) =>
+  value === null || value === undefined ? '—' : `${(value * 100).toFixed(digits)}%`;
+
+// Tooltip label for aggregated trends: the date plus how many regions reported that day
+const coverageLabel = (label: React.ReactNode, payload: readonly { payload?: { coverage?: number } }[]) => {
+  const coverage = payload?.[0]?.payload?.coverage;
+  return coverage === undefined ? label : `${label} · ${(coverage * 100).toFixed(0)}% of regions reporting`;
+};
 
-const WHOLE_COUNTRY_OPTION = '(Whole Country Average)';
+// Tooltip values for a trend chart; a smoothed chart also shows the daily value behind each point
+const trendTooltip = (config: SmoothingConfig, label?: string) =>
+  (value: number | null, name: string, item: { dataKey?: unknown; payload?: Record<string, unknown> }) => {
+    const shown = formatPercent(value);
+    if (!isSmoothing(config)) return [shown, label ?? name];
+    const raw = item?.payload?.[rawKey(String(item.dataKey))] as number | null | undefined;
+    return [`${shown} (daily ${formatPercent(raw)})`, label ?? name];
+  };
 
-interface ChartDataPoint {
-  ds: string;
-  primary_mobility: number | null;
-  primary_stay: number | null;
-  primary_label?: string;
-  secondary_mobility?: number;
-  secondary_stay?: number;
-  secondary_label?: string;
-}
+// Labelled vertical markers for the events that apply to a chart
+const eventMarkers = (events: EventAnnotation[]) => events.map(e => (
+  <ReferenceLine
+    key={e.id}
+    x={e.ds}
+    stroke={categoryColor(e.category)}
+    strokeDasharray="2 4"
+    label={{ value: e.label, position: 'insideTopLeft', fill: categoryColor(e.category), fontSize: 10 }}
+  />
+));
+
+// Brush drags fire on every pixel; the dashboard is re-scoped once the handle settles
+const BRUSH_SETTLE_MS = 250;
+
+// Detected shifts in one series: a dashed line where its level changes and a dot on each outlying day.
+// Dots sit on the plotted line, which is the smoothed value when the chart is smoothed; a day the
+// smoothing leaves without a value gets no dot.
+const shiftMarkers = (shifts: SeriesShifts | undefined, color: string, key: string, rows: { ds: string }[], dataKey: string) => {
+  if (!shifts) return undefined;
+  const plotted = new Map(rows.map(row => [row.ds, (row as Record<string, unknown>)[dataKey] as number | null | undefined]));
+  return [
+    ...shifts.changePoints.map(c => (
+      <ReferenceLine
+        key={`${key}-change-${c.ds}`}
+        x={c.ds}
+        stroke={color}
+        strokeDasharray="6 3"
+        strokeOpacity={0.7}
+        label={{ value: `${c.shift > 0 ? '+' : ''}${(c.shift * 100).toFixed(1)} pts`, position: 'insideBottomLeft', fill: color, fontSize: 10 }}
+      />
+    )),
+    ...shifts.outliers.flatMap(o => {
+      const y = plotted.get(o.ds);
+      return y === null || y === undefined
+        ? []
+        : [<ReferenceDot key={`${key}-outlier-${o.ds}`} x={o.ds} y={y} r={4} fill={color} stroke="#ffffff" strokeWidth={1.5} />];
+    }),
+  ];
+};
 
-interface RegionStats {
-  name: string;
-  avgMobility: number;
-  avgStay: number;
-  maxStay: number;
-  minMobility: number;
-  dataPoints: number;
-}
+// Which weighting produced a country average, for the summary cards
+const weightingNote = ({ weighting }: AggregateResult) => {
+  if (!weighting) return 'Unweighted mean of regions';
+  if (weighting.fallback === 0) return 'Population-weighted';
+  return `Population-weighted · ${weighting.fallback} polygons without a population count at the average weight`;
+};
 
-interface NormalizedDataPoint {
-  ds: string;
-  mobility: number;
-  stay: number;
-  baseline_type?: string;
+// Chart keys are mobility_<i> / stay_<i>; legend clicks map back to the series index
+const seriesIndexOf = (dataKey: unknown) => Number(String(dataKey).split('_').pop());
+
+const seriesKeys = (metric: MovementMetric, count: number) => Array.from({ length: count }, (_, i) => `${metric}_${i}`);
+
+// Each trend chart has its own smoothing settings
+type TrendChartId = 'countryMobility' | 'countryStay' | 'regionMobility' | 'regionStay';
+
+// The values a chart plots, one column per series; smoothed charts add each series' daily values
+const chartCsv = (rows: { ds: string }[], columns: { key: string; label: string }[], smoothed: boolean): CsvTable => ({
+  header: ['ds', ...columns.flatMap(c => (smoothed ? [c.label, `${c.label} (daily)`] : [c.label]))],
+  rows: rows.map(row => {
+    const r = row as Record<string, unknown>;
+    return [row.ds, ...columns.flatMap(c => (smoothed ? [r[c.key], r[rawKey(c.key)]] : [r[c.key]]) as (number | null)[])];
+  }),
+});
+
+// Regions without any values always sink to the bottom
+const sortRegions = (regions: RegionStats[], sortConfig: SortConfig | null): RegionStats[] => {
+  const sortable = [...regions];
+  if (sortConfig) {
+    sortable.sort((a, b) => {
+      const av = a[sortConfig.key] ?? null;
+      const bv = b[sortConfig.key] ?? null;
+      if (av === null || bv === null) return av === bv ? 0 : av === null ? 1 : -1;
+      if (av < bv) return sortConfig.direction === 'asc' ? -1 : 1;
+      if (av > bv) return sortConfig.direction === 'asc' ? 1 : -1;
+      return 0;
+    });
+  }
+  return sortable;
+};
+
+// A matrix row: a region of the matrix series, or a child opened beneath its parent
+interface MatrixRow {
+  region: RegionStats;
+  depth: number;
+  children: number;
 }
 
+// What each series points at, so hiding one from the legend does not recompute the others
+const seriesDataKey = (series: SeriesSpec[]) => series.map(s => `${s.country}\u0000${s.region}`).join('\u0001');
+
 interface DashboardProps {
-  data: MovementRecord[];
+  data: MovementDataset;
+  sources: DataSource[];
+  dedupeRule: DedupeRule;
+  onDedupeRuleChange: (rule: DedupeRule) => void;
+  onAddFile: () => void;
+  onRemoveSource: (id: string) => void;
   onReset: () => void;
 }
 
-// Helper to calculate country-wide aggregates
-const calculateCountryAggregates = (data: MovementRecord[], country: string) => {
-  if (!country) return null;
-  const raw = data.filter(d => d.country === country);
-  if (raw.length === 0) return null;
-
-  // 1. Aggregated Trend (Avg per day)
-  const dateMap = new Map<string, { count: number; mobSum: number; staySum: number }>();
-  
-  // 2. Region Matrix Data
-  const regionMap = new Map<string, RegionStats>();
-
-  raw.forEach(r => {
-    // Trend Accumulation
-    if (!dateMap.has(r.ds)) dateMap.set(r.ds, { count: 0, mobSum: 0, staySum: 0 });
-    const dEntry = dateMap.get(r.ds)!;
-    dEntry.count++;
-    dEntry.mobSum += r.all_day_bing_tiles_visited_relative_change;
-    dEntry.staySum += r.all_day_ratio_single_tile_users;
-
-    // Region Accumulation
-    if (!regionMap.has(r.polygon_name)) {
-      regionMap.set(r.polygon_name, { 
-        name: r.polygon_name, 
-        avgMobility: 0, 
-        avgStay: 0, 
-        maxStay: -1, 
-        minMobility: 999,
-        dataPoints: 0 
-      });
+const Dashboard: React.FC<DashboardProps> = ({
+  data: loadedData,
+  sources,
+  dedupeRule,
+  onDedupeRuleChange,
+  onAddFile,
+  onRemoveSource,
+  onReset,
+}) => {
+  // Optional baseline type every view is narrowed to; a type no longer in the loaded files is ignored
+  const [baselineType, setBaselineType] = useState<string | null>(null);
+  const activeBaselineType = baselineType !== null && loadedData.baselines.some(b => b.baseline_type === baselineType) ? baselineType : null;
+  const baselineData = useMemo(
+    () => (activeBaselineType === null ? loadedData : filterByBaselineType(loadedData, activeBaselineType)),
+    [loadedData, activeBaselineType]
+  );
+  const [initialView] = useState(readViewStateFromHash);
+
+  // Countries that mix polygon sources are analysed at one source each, the largest unless another is picked
+  const [sourceByCountry, setSourceByCountry] = useState<Record<string, string>>(initialView.sourceByCountry ?? {});
+  const data = useMemo(() => filterByPolygonSource(baselineData, sourceByCountry), [baselineData, sourceByCountry]);
+
+  const countries = useMemo(() => getUniqueCountries(data), [data]);
+
+  // Region lists are looked up for every series row; cache them per dataset
+  const regionCache = useMemo(() => new Map<string, RegionEntry[]>(), [data]);
+  const regionsOf = useCallback((country: string) => {
+    let regions = regionCache.get(country);
+    if (!regions) {
+      regions = getRegionsByCountry(data, country);
+      regionCache.set(country, regions);
     }
-    const rEntry = regionMap.get(r.polygon_name)!;
-    rEntry.avgMobility += r.all_day_bing_tiles_visited_relative_change;
-    rEntry.avgStay += r.all_day_ratio_single_tile_users;
-    rEntry.maxStay = Math.max(rEntry.maxStay, r.all_day_ratio_single_tile_users);
-    rEntry.minMobility = Math.min(rEntry.minMobility, r.all_day_bing_tiles_visited_relative_change);
-    rEntry.dataPoints++;
-  });
+    return regions;
+  }, [data, regionCache]);
 
-  // Finalize Trend
-  const trend = Array.from(dateMap.entries()).map(([ds, val]) => ({
-    ds,
-    avgMobility: val.mobSum / val.count,
-    avgStay: val.staySum / val.count
-  })).sort((a, b) => new Date(a.ds).getTime() - new Date(b.ds).getTime());
-
-  // Finalize Matrix
-  const matrix = Array.from(regionMap.values()).map(r => ({
-    ...r,
-    avgMobility: r.avgMobility / r.dataPoints,
-    avgStay: r.avgStay / r.dataPoints
-  }));
-
-  return { trend, matrix, totalRegions: regionMap.size };
-};
+  const labelOf = (s: SeriesSpec) => seriesLabel(s, regionsOf);
+  // A series named with its country, for exported files
+  const describeSeries = (s: SeriesSpec) => (s.region === WHOLE_COUNTRY_OPTION ? labelOf(s) : `${labelOf(s)} (${s.country})`);
 
-// Helper to format a single region's data as an aggregate structure (for polymorphic usage)
-const calculateRegionAsAggregate = (dataset: NormalizedDataPoint[], regionName: string) => {
-  if (dataset.length === 0) return null;
-
-  // Trend
-  const trend = dataset.map(d => ({
-    ds: d.ds,
-    avgMobility: d.mobility,
-    avgStay: d.stay
-  }));
-
-  // Matrix (Single Row)
-  const mobilityVals = dataset.map(d => d.mobility);
-  const stayVals = dataset.map(d => d.stay);
-  
-  const avgMobility = mobilityVals.reduce((a, b) => a + b, 0) / mobilityVals.length;
-  const avgStay = stayVals.reduce((a, b) => a + b, 0) / stayVals.length;
-  const minMobility = Math.min(...mobilityVals);
-  const maxStay = Math.max(...stayVals);
-
-  const matrix: RegionStats[] = [{
-     name: regionName,
-     avgMobility,
-     avgStay,
-     maxStay,
-     minMobility,
-     dataPoints: dataset.length
-  }];
-
-  return { trend, matrix, totalRegions: 1 };
-};
+  // Series from a shared link get fresh ids; countries and regions not in this dataset fall back to defaults
+  const restoreSeries = (specs: SeriesSpec[], max: number): SeriesSelection[] =>
+    sanitizeSeries(specs.slice(0, max).map(s => createSeries(s.country, s.region, s.hidden)), countries, regionsOf);
+
+  const knownCountry = (c: string | undefined, alt: string) => (c && countries.includes(c) ? c : alt);
+
+  const [viewMode, setViewMode] = useState<'region' | 'country'>(initialView.viewMode ?? 'country');
+  const [showSources, setShowSources] = useState(false);
+  const [showEvents, setShowEvents] = useState(false);
+  // Change points and outliers on the region charts, with every region of the primary country ranked below
+  const [showShifts, setShowShifts] = useState(false);
+  // The printable briefing for the Country Overview's primary country replaces the dashboard while open
+  const [showReport, setShowReport] = useState(false);
 
-const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
-  const countries = useMemo(() => getUniqueCountries(data), [data]);
-  const [viewMode, setViewMode] = useState<'region' | 'country'>('country');
-  
   // ==========================================
   // VIEW 1: COMPARATIVE ANALYSIS (Region/Country)
   // ==========================================
-  const [selectedCountry, setSelectedCountry] = useState<string>(countries[0] || '');
-  
-  // Add Whole Country Option to list
-  const primaryRegions = useMemo(() => {
-    const regions = getRegionsByCountry(data, selectedCountry);
-    return [WHOLE_COUNTRY_OPTION, ...regions];
-  }, [data, selectedCountry]);
-  
-  const [selectedRegion, setSelectedRegion] = useState<string>(primaryRegions[0] || '');
-
-  // Reset region when country changes
+  // The first series is the primary one and is always present
+  const [series, setSeries] = useState<SeriesSelection[]>(() => {
+    const restored = restoreSeries(initialView.series ?? [], MAX_SERIES);
+    return restored.length > 0 ? restored : [createSeries(countries[0] || '')];
+  });
+
+  // ==========================================
+  // VIEW 2: COUNTRY OVERVIEW STATE
+  // ==========================================
+  const [countryViewCountry, setCountryViewCountry] = useState<string>(knownCountry(initialView.countryViewCountry, countries[0] || ''));
+  // Other countries or regions drawn against the primary country, which keeps the first colour
+  const [countryComparisons, setCountryComparisons] = useState<SeriesSelection[]>(
+    () => restoreSeries(initialView.countryComparisons ?? [], MAX_SERIES - 1)
+  );
+
+  // Files can be added or removed while the dashboard is open; drop selections that no longer exist
   useEffect(() => {
-    if (selectedCountry && !primaryRegions.includes(selectedRegion)) {
-      setSelectedRegion(primaryRegions[0] || '');
-    }
-  }, [selectedCountry, primaryRegions, selectedRegion]);
+    setSeries(list => sanitizeSeries(list, countries, regionsOf));
+    setCountryComparisons(list => sanitizeSeries(list, countries, regionsOf));
+    setCountryViewCountry(c => knownCountry(c, countries[0] || ''));
+  }, [countries, regionsOf]);
+
+  const [sortConfig, setSortConfig] = useState<SortConfig | null>(
+    initialView.sortConfig !== undefined ? initialView.sortConfig : { key: 'avgMobility', direction: 'asc' }
+  );
+  const [matrixSeries, setMatrixSeries] = useState<number>(initialView.matrixSeries ?? 0);
+  const [boundaries, setBoundaries] = useState<BoundaryLayer | null>(null);
+  // Region picked from the matrix to find look-alikes for; the similarity panel covers its country
+  const [similarTarget, setSimilarTarget] = useState<{ country: string; region: string } | null>(null);
+  // Optional polygon populations; country averages are population-weighted while one is loaded
+  const [population, setPopulation] = useState<PopulationTable | null>(null);
+  // Optional child-to-parent polygon links, which let matrix rows open into their children
+  const [parentMapping, setParentMapping] = useState<ParentMapping | null>(null);
+  const [expandedRegions, setExpandedRegions] = useState<Set<string>>(() => new Set());
+  const [smoothing, setSmoothing] = useState<Record<TrendChartId, SmoothingConfig>>({
+    countryMobility: NO_SMOOTHING,
+    countryStay: NO_SMOOTHING,
+    regionMobility: NO_SMOOTHING,
+    regionStay: NO_SMOOTHING,
+  });
+  // Event annotations are kept in this browser across sessions
+  const [annotations, setAnnotations] = useState<EventAnnotation[]>(loadAnnotations);
+  const handleAnnotationsChange = (next: EventAnnotation[]) => {
+    setAnnotations(next);
+    saveAnnotations(next);
+  };
+
+  // Chart containers, read when a chart is exported as an image
+  const chartRefs = useRef<Partial<Record<TrendChartId, HTMLDivElement | null>>>({});
 
-  const [isCompareMode, setIsCompareMode] = useState(false);
-  const [selectedCountry2, setSelectedCountry2] = useState<string>(countries[0] || '');
-  
-  const secondaryRegions = useMemo(() => {
-    const regions = getRegionsByCountry(data, selectedCountry2);
-    return [WHOLE_COUNTRY_OPTION, ...regions];
-  }, [data, selectedCountry2]);
+  const smoothingControl = (id: TrendChartId) => (
+    <SmoothingControl config={smoothing[id]} onChange={(config) => setSmoothing(prev => ({ ...prev, [id]: config }))} />
+  );
 
-  const [selectedRegion2, setSelectedRegion2] = useState<string>('');
+  // One date range scopes every chart, card and the matrix in both views
+  const [dateRange, setDateRange] = useState<DateRange | null>(initialView.dateRange ?? null);
+  const dataExtent = useMemo(() => getDatasetExtent(data), [data]);
+  const activeRange = useMemo(() => normalizeDateRange(dateRange, dataExtent), [dateRange, dataExtent]);
+
+  const brushSettleRef = useRef<number | null>(null);
+  useEffect(() => () => {
+    if (brushSettleRef.current !== null) window.clearTimeout(brushSettleRef.current);
+  }, []);
+
+  // A brush under each trend chart narrows the shared range to the span dragged over that chart's days
+  const rangeBrush = (rows: { ds: string }[]) => rows.length > 1 && (
+    <Brush
+      key={`${rows[0].ds}..${rows[rows.length - 1].ds}`}
+      dataKey="ds"
+      height={20}
+      travellerWidth={8}
+      stroke="#94a3b8"
+      onChange={({ startIndex, endIndex }) => {
+        if (startIndex === undefined || endIndex === undefined || !rows[startIndex] || !rows[endIndex]) return;
+        if (startIndex === 0 && endIndex === rows.length - 1) return;
+        if (brushSettleRef.current !== null) window.clearTimeout(brushSettleRef.current);
+        brushSettleRef.current = window.setTimeout(
+          () => setDateRange({ start: rows[startIndex].ds, end: rows[endIndex].ds }),
+          BRUSH_SETTLE_MS
+        );
+      }}
+    />
+  );
 
+  // Keep the URL hash in step with the view so it can be copied and shared at any point
   useEffect(() => {
-    if (isCompareMode && selectedCountry2 && !secondaryRegions.includes(selectedRegion2)) {
-      setSelectedRegion2(secondaryRegions[0] || '');
-    }
-  }, [selectedCountry2, secondaryRegions, selectedRegion2, isCompareMode]);
+    writeViewStateToHash({
+      viewMode,
+      series,
+      countryViewCountry,
+      countryComparisons,
+      sortConfig,
+      matrixSeries,
+      dateRange: activeRange,
+      sourceByCountry,
+    });
+  }, [viewMode, series, countryViewCountry, countryComparisons, sortConfig, matrixSeries, activeRange, sourceByCountry]);
 
-  // ==========================================
-  // VIEW 2: COUNTRY OVERVIEW STATE
-  // ==========================================
-  const [countryViewCountry, setCountryViewCountry] = useState<string>(countries[0] || '');
-  const [isCountryCompareMode, setIsCountryCompareMode] = useState(false);
-  
-  // Comparison Type: Compare against another country OR a specific region in the same country
-  const [countryCompareType, setCountryCompareType] = useState<'country' | 'region'>('country');
-  const [countryViewCountry2, setCountryViewCountry2] = useState<string>(countries.length > 1 ? countries[1] : countries[0] || '');
-  const [countryViewRegion, setCountryViewRegion] = useState<string>('');
-
-  // Available regions for the Country Overview comparison
-  const countryViewAvailableRegions = useMemo(() => {
-      return getRegionsByCountry(data, countryViewCountry);
-  }, [data, countryViewCountry]);
-
-  // Auto-select first region if switching to region compare mode
+  // A link pasted into an open tab only changes the hash; apply it the same way as on load
   useEffect(() => {
-      if (countryCompareType === 'region' && countryViewAvailableRegions.length > 0 && !countryViewAvailableRegions.includes(countryViewRegion)) {
-          setCountryViewRegion(countryViewAvailableRegions[0]);
-      }
-  }, [countryCompareType, countryViewAvailableRegions, countryViewRegion]);
-  
-  const [sortConfig, setSortConfig] = useState<{key: keyof RegionStats, direction: 'asc' | 'desc'} | null>({ key: 'avgMobility', direction: 'asc' });
-  const [matrixTab, setMatrixTab] = useState<'primary' | 'secondary'>('primary');
+    const handleHashChange = () => {
+      const view = readViewStateFromHash();
+      if (view.viewMode) setViewMode(view.viewMode);
+      if (view.series && view.series.length > 0) setSeries(restoreSeries(view.series, MAX_SERIES));
+      if (view.countryViewCountry && countries.includes(view.countryViewCountry)) setCountryViewCountry(view.countryViewCountry);
+      if (view.countryComparisons) setCountryComparisons(restoreSeries(view.countryComparisons, MAX_SERIES - 1));
+      if (view.sortConfig !== undefined) setSortConfig(view.sortConfig);
+      if (view.matrixSeries !== undefined) setMatrixSeries(view.matrixSeries);
+      if (view.dateRange !== undefined) setDateRange(view.dateRange);
+      if (view.sourceByCountry) setSourceByCountry(view.sourceByCountry);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [countries, regionsOf]);
+
+  const toggleSeries = (index: number) =>
+    setSeries(list => list.map((s, i) => (i === index ? { ...s, hidden: !s.hidden } : s)));
 
   // ==========================================
   // DATA PROCESSING
   // ==========================================
 
-  // --- Helper: Get Normalized Series (Raw or Aggregated) ---
-  const getNormalizedSeries = (c: string, r: string): NormalizedDataPoint[] => {
-    if (!c || !r) return [];
-
-    // Case A: Whole Country Average
-    if (r === WHOLE_COUNTRY_OPTION) {
-        const agg = calculateCountryAggregates(data, c);
-        if (!agg) return [];
-        return agg.trend.map(t => ({
-            ds: t.ds,
-            mobility: t.avgMobility,
-            stay: t.avgStay,
-            baseline_type: 'AVERAGE'
-        }));
-    }
+  // --- Region Comparison Data ---
+  const seriesKey = seriesDataKey(series);
+  const seriesData = useMemo(
+    () => series.map(s => getNormalizedSeries(data, s.country, s.region, activeRange, population)),
+    [seriesKey, data, activeRange, population]
+  );
+  const comparisonChartData = useMemo(() => mergeSeriesByDate(seriesData), [seriesData]);
+  const regionMobilityData = useMemo(
+    () => smoothRows(comparisonChartData, seriesKeys('mobility', seriesData.length), smoothing.regionMobility),
+    [comparisonChartData, seriesData.length, smoothing.regionMobility]
+  );
+  const regionStayData = useMemo(
+    () => smoothRows(comparisonChartData, seriesKeys('stay', seriesData.length), smoothing.regionStay),
+    [comparisonChartData, seriesData.length, smoothing.regionStay]
+  );
+  const seriesStats = useMemo(() => seriesData.map(calculateStats), [seriesData]);
+  // Detection runs on the daily values whatever the charts' smoothing
+  const seriesShifts = useMemo(
+    () => (showShifts ? seriesData.map(points => ({ mobility: detectSeriesShifts(points, 'mobility'), stay: detectSeriesShifts(points, 'stay') })) : []),
+    [showShifts, seriesData]
+  );
+  const stats = seriesStats[0];
+  const visibleSeries = series
+    .map((s, i) => ({ s, i, stats: seriesStats[i] }))
+    .filter(v => !v.s.hidden && v.stats);
 
-    // Case B: Specific Region
-    const filtered = data.filter((d) => d.country === c && d.polygon_name === r);
-    return filtered
-        .sort((a, b) => new Date(a.ds).getTime() - new Date(b.ds).getTime())
-        .map(d => ({
-            ds: d.ds,
-            mobility: d.all_day_bing_tiles_visited_relative_change,
-            stay: d.all_day_ratio_single_tile_users,
-            baseline_type: d.baseline_type
-        }));
-  };
 
-  const calculateStats = (dataset: NormalizedDataPoint[]) => {
-    if (dataset.length === 0) return null;
-    const mobilityChanges = dataset.map((d) => d.mobility);
-    const stayHomeRatios = dataset.map((d) => d.stay);
-    
-    const avgMobility = mobilityChanges.reduce((a, b) => a + b, 0) / mobilityChanges.length;
-    const maxStayHome = Math.max(...stayHomeRatios);
-    
-    return {
-      avgMobility: (avgMobility * 100).toFixed(1),
-      maxStayHome: (maxStayHome * 100).toFixed(1),
-      count: dataset.length,
-      start: dataset[0].ds,
-      end: dataset[dataset.length - 1].ds,
-    };
-  };
+  // --- Country Overview Data ---
+  const countryOverviewData1 = useMemo(
+    () => calculateCountryAggregates(data, countryViewCountry, activeRange, population),
+    [data, countryViewCountry, activeRange, population]
+  );
 
-  // --- Region Comparison Data ---
-  const primaryData = useMemo(() => getNormalizedSeries(selectedCountry, selectedRegion), [selectedCountry, selectedRegion, data]);
-  const secondaryData = useMemo(() => isCompareMode ? getNormalizedSeries(selectedCountry2, selectedRegion2) : [], [isCompareMode, selectedCountry2, selectedRegion2, data]);
-
-  const comparisonChartData = useMemo(() => {
-    const dataMap = new Map<string, ChartDataPoint>();
-    
-    primaryData.forEach(d => {
-      dataMap.set(d.ds, {
-        ds: d.ds,
-        primary_mobility: d.mobility,
-        primary_stay: d.stay,
-        primary_label: selectedRegion === WHOLE_COUNTRY_OPTION ? `${selectedCountry} (Avg)` : selectedRegion
-      });
-    });
+  // Each comparison is another country's aggregate, or a single region shaped like one
+  const comparisonKey = seriesDataKey(countryComparisons);
+  const comparisonAggregates = useMemo(
+    () => countryComparisons.map(s => calculateSeriesAggregate(data, s.country, s.region, activeRange, population)),
+    [comparisonKey, data, activeRange, population]
+  );
+  const isCountryCompareMode = countryComparisons.length > 0;
+
+  // Index 0 is the primary country, then each comparison in order
+  const overviewAggregates = useMemo(() => [countryOverviewData1, ...comparisonAggregates], [countryOverviewData1, comparisonAggregates]);
+  const overviewLabels = [countryViewCountry, ...countryComparisons.map(labelOf)];
+  const overviewHidden = [false, ...countryComparisons.map(s => s.hidden)];
+
+  const countryComparisonChartData = useMemo(
+    () => mergeSeriesByDate(overviewAggregates.map(agg =>
+      agg ? agg.trend.map(t => ({ ds: t.ds, mobility: t.avgMobility, stay: t.avgStay })) : []
+    )),
+    [overviewAggregates]
+  );
 
-    if (isCompareMode && secondaryData.length > 0) {
-      secondaryData.forEach(d => {
-        const existing: ChartDataPoint = dataMap.get(d.ds) || { 
-            ds: d.ds,
-            primary_mobility: null,
-            primary_stay: null
-        };
-        existing.secondary_mobility = d.mobility;
-        existing.secondary_stay = d.stay;
-        existing.secondary_label = selectedRegion2 === WHOLE_COUNTRY_OPTION ? `${selectedCountry2} (Avg)` : selectedRegion2;
-        dataMap.set(d.ds, existing);
-      });
-    }
+  // Smoothed copies for the charts; the single-country view draws the aggregate trend itself
+  const countryMobilityData = useMemo<{ ds: string }[]>(
+    () => isCountryCompareMode
+      ? smoothRows(countryComparisonChartData, seriesKeys('mobility', overviewAggregates.length), smoothing.countryMobility)
+      : smoothRows(countryOverviewData1?.trend ?? [], ['avgMobility'], smoothing.countryMobility),
+    [isCountryCompareMode, countryComparisonChartData, overviewAggregates.length, countryOverviewData1, smoothing.countryMobility]
+  );
+  const countryStayData = useMemo<{ ds: string }[]>(
+    () => isCountryCompareMode
+      ? smoothRows(countryComparisonChartData, seriesKeys('stay', overviewAggregates.length), smoothing.countryStay)
+      : smoothRows(countryOverviewData1?.trend ?? [], ['avgStay'], smoothing.countryStay),
+    [isCountryCompareMode, countryComparisonChartData, overviewAggregates.length, countryOverviewData1, smoothing.countryStay]
+  );
 
-    return Array.from(dataMap.values()).sort((a, b) => new Date(a.ds).getTime() - new Date(b.ds).getTime());
-  }, [primaryData, secondaryData, isCompareMode, selectedRegion, selectedCountry, selectedRegion2, selectedCountry2]);
+  // Events matching any drawn series: country-wide events for a country, plus polygon events for a region
+  const regionEvents = useMemo(
+    () => annotationsForScopes(
+      annotations,
+      series.filter(s => !s.hidden).map(s => getSeriesScope(data, s.country, s.region)),
+      activeRange
+    ),
+    [annotations, series, data, activeRange]
+  );
+  const countryEvents = useMemo(
+    () => annotationsForScopes(
+      annotations,
+      [
+        getSeriesScope(data, countryViewCountry, WHOLE_COUNTRY_OPTION),
+        ...countryComparisons.filter(s => !s.hidden).map(s => getSeriesScope(data, s.country, s.region)),
+      ],
+      activeRange
+    ),
+    [annotations, countryViewCountry, countryComparisons, data, activeRange]
+  );
 
-  const stats = useMemo(() => calculateStats(primaryData), [primaryData]);
-  const stats2 = useMemo(() => isCompareMode ? calculateStats(secondaryData) : null, [secondaryData, isCompareMode]);
+  const toggleComparison = (index: number) => {
+    if (index === 0) return; // the primary country is always drawn
+    setCountryComparisons(list => list.map((s, i) => (i === index - 1 ? { ...s, hidden: !s.hidden } : s)));
+  };
 
+  // Tabs disappear with their comparison; fall back to the primary country
+  const matrixIndex = matrixSeries < overviewAggregates.length ? matrixSeries : 0;
+  const matrixCountry = matrixIndex === 0 ? countryViewCountry : countryComparisons[matrixIndex - 1].country;
 
-  // --- Country Overview Data ---
-  const countryOverviewData1 = useMemo(() => calculateCountryAggregates(data, countryViewCountry), [data, countryViewCountry]);
-  
-  // Dynamic Calculation for Comparison Data (Country vs Country OR Country vs Region)
-  const countryOverviewData2 = useMemo(() => {
-      if (!isCountryCompareMode) return null;
-
-      if (countryCompareType === 'country') {
-          // Compare with another country
-          return calculateCountryAggregates(data, countryViewCountry2);
-      } else {
-          // Compare with a region in the same country
-          // Reuse getNormalizedSeries to fetch raw data, then shape it like an aggregate
-          const regionSeries = getNormalizedSeries(countryViewCountry, countryViewRegion);
-          return calculateRegionAsAggregate(regionSeries, countryViewRegion);
-      }
-  }, [data, countryViewCountry2, countryViewRegion, isCountryCompareMode, countryCompareType, countryViewCountry]);
-
-  const countryComparisonChartData = useMemo(() => {
-    if (!countryOverviewData1) return [];
-    
-    const dataMap = new Map<string, ChartDataPoint>();
-    
-    countryOverviewData1.trend.forEach(d => {
-      dataMap.set(d.ds, {
-        ds: d.ds,
-        primary_mobility: d.avgMobility,
-        primary_stay: d.avgStay,
-        primary_label: countryViewCountry
+  // Phase metrics need each region's daily mobility, which the aggregate's matrix does not keep
+  const matrixCurves = useMemo(
+    () => (viewMode === 'country' ? getRegionCurves(data, matrixCountry, 'mobility', activeRange) : null),
+    [viewMode, data, matrixCountry, activeRange]
+  );
+  const sortedMatrix = useMemo(() => {
+    const activeData = overviewAggregates[matrixIndex] ?? countryOverviewData1;
+    if (!activeData?.matrix || !matrixCurves) return [];
+    return sortRegions(withPhaseMetrics(activeData.matrix, matrixCurves), sortConfig);
+  }, [overviewAggregates, countryOverviewData1, sortConfig, matrixIndex, matrixCurves]);
+
+  const primarySeries = series[0];
+
+  const countryOverviewDates = useMemo(() => countryOverviewData1?.trend.map(t => t.ds) ?? [], [countryOverviewData1]);
+
+  const similarityCountry = similarTarget?.country ?? countryViewCountry;
+  // The similarity target can belong to another tab than the matrix; only then are its curves read separately
+  const similarityCurves = useMemo(
+    () =>
+      viewMode === 'country' && similarityCountry !== matrixCountry
+        ? getRegionCurves(data, similarityCountry, 'mobility', activeRange)
+        : matrixCurves,
+    [viewMode, data, similarityCountry, matrixCountry, activeRange, matrixCurves]
+  );
+
+  // Expanded regions list their children below them, read from every polygon source of the country
+  const matrixChildCounts = useMemo(
+    () => (parentMapping ? countChildren(baselineData, matrixCountry, parentMapping) : new Map<string, number>()),
+    [parentMapping, baselineData, matrixCountry]
+  );
+  const matrixRows = useMemo(() => {
+    const rows: MatrixRow[] = [];
+    // Children can sit at any polygon source, so their curves are read only once a row is opened
+    let childCurves: ReturnType<typeof getRegionCurves> | null = null;
+    const addRows = (regions: RegionStats[], depth: number, path: Set<string>) => {
+      regions.forEach(region => {
+        const children = matrixChildCounts.get(region.key) ?? 0;
+        rows.push({ region, depth, children });
+        if (!parentMapping || children === 0 || !expandedRegions.has(region.key) || path.has(region.key)) return;
+        const childRegions = getChildRegions(baselineData, matrixCountry, region.key, parentMapping);
+        const childMatrix = calculateRegionsAggregate(baselineData, childRegions, activeRange, population)?.matrix ?? [];
+        if (!childCurves) childCurves = getRegionCurves(baselineData, matrixCountry, 'mobility', activeRange);
+        addRows(sortRegions(withPhaseMetrics(childMatrix, childCurves), sortConfig), depth + 1, new Set(path).add(region.key));
       });
+    };
+    addRows(sortedMatrix, 0, new Set());
+    return rows;
+  }, [sortedMatrix, matrixChildCounts, expandedRegions, parentMapping, baselineData, matrixCountry, activeRange, population, sortConfig]);
+
+  const toggleExpanded = (key: string) =>
+    setExpandedRegions(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
     });
 
-    if (isCountryCompareMode && countryOverviewData2) {
-      const secondaryLabel = countryCompareType === 'country' ? countryViewCountry2 : countryViewRegion;
-
-      countryOverviewData2.trend.forEach(d => {
-        const existing: ChartDataPoint = dataMap.get(d.ds) || {
-          ds: d.ds,
-          primary_mobility: null,
-          primary_stay: null,
-          primary_label: countryViewCountry
-        };
-        existing.secondary_mobility = d.avgMobility;
-        existing.secondary_stay = d.avgStay;
-        existing.secondary_label = secondaryLabel;
-        dataMap.set(d.ds, existing);
-      });
-    }
+  // Similar regions open together in the Region Analysis view, the matched region first
+  const handleCompareRegions = (regions: string[]) => {
+    setSeries(regions.map(region => createSeries(similarityCountry, region)));
+    setViewMode('region');
+  };
 
-    return Array.from(dataMap.values()).sort((a, b) => new Date(a.ds).getTime() - new Date(b.ds).getTime());
-  }, [countryOverviewData1, countryOverviewData2, isCountryCompareMode, countryViewCountry, countryViewCountry2, countryCompareType, countryViewRegion]);
+  // Clicking a region on the map opens it as the primary series in the Region Analysis view
+  const openRegionAnalysis = (country: string, regionKey: string) => {
+    setSeries(([first, ...rest]) => [{ ...first, country, region: regionKey, hidden: false }, ...rest]);
+    setViewMode('region');
+  };
+  const handleMapRegionSelect = (regionKey: string) => openRegionAnalysis(countryViewCountry, regionKey);
 
+  const overviewAvgMobility = useMemo(
+    () => overviewAggregates.map(agg => (agg ? averageOfRegions(agg.matrix, 'avgMobility') : null)),
+    [overviewAggregates]
+  );
 
-  const sortedMatrix = useMemo(() => {
-    const activeData = (matrixTab === 'secondary' && isCountryCompareMode && countryOverviewData2) 
-      ? countryOverviewData2 
-      : countryOverviewData1;
-
-    if (!activeData?.matrix) return [];
-    let sortable = [...activeData.matrix];
-    if (sortConfig) {
-      sortable.sort((a, b) => {
-        if (a[sortConfig.key] < b[sortConfig.key]) return sortConfig.direction === 'asc' ? -1 : 1;
-        if (a[sortConfig.key] > b[sortConfig.key]) return sortConfig.direction === 'asc' ? 1 : -1;
-        return 0;
-      });
-    }
-    return sortable;
-  }, [countryOverviewData1, countryOverviewData2, sortConfig, matrixTab, isCountryCompareMode]);
+  // --- Lockdown phase of each drawn series' mobility ---
+  const regionPhases = useMemo<PhaseMetricsItem[]>(
+    () => series
+      .map((s, i) => ({ s, i }))
+      .filter(({ s }) => !s.hidden)
+      .map(({ s, i }) => ({
+        id: s.id,
+        label: labelOf(s),
+        color: seriesColor(i),
+        metrics: calculatePhaseMetrics(seriesData[i].map(p => ({ ds: p.ds, value: p.mobility }))),
+      })),
+    [series, seriesData, regionsOf]
+  );
+  const countryPhases = useMemo<PhaseMetricsItem[]>(
+    () => overviewAggregates
+      .map((agg, i) => ({ agg, i }))
+      .filter(({ agg, i }) => agg && !overviewHidden[i])
+      .map(({ agg, i }) => ({
+        id: i === 0 ? 'primary' : countryComparisons[i - 1].id,
+        label: overviewLabels[i],
+        color: seriesColor(i),
+        metrics: calculatePhaseMetrics(agg!.trend.map(t => ({ ds: t.ds, value: t.avgMobility }))),
+      })),
+    [overviewAggregates, countryComparisons, overviewLabels.join('\u0000')]
+  );
+
+  // --- Baselines behind each drawn series ---
+  const regionBaselines = useMemo<SeriesBaselineItem[]>(
+    () => series
+      .map((s, i) => ({ s, i }))
+      .filter(({ s }) => !s.hidden)
+      .map(({ s, i }) => ({ id: s.id, label: labelOf(s), color: seriesColor(i), baselines: getSeriesBaselines(data, s.country, s.region, activeRange) })),
+    [series, data, activeRange, regionsOf]
+  );
+  // One type when every drawn series shares it, otherwise MIXED
+  const regionBaselineTypes = new Set(regionBaselines.flatMap(item => item.baselines.map(u => u.baseline.baseline_type)));
+  const regionBaselineLabel = regionBaselineTypes.size === 1 ? Array.from(regionBaselineTypes)[0] || 'Unknown' : regionBaselineTypes.size === 0 ? '—' : 'MIXED';
+  const countryBaselines = useMemo<SeriesBaselineItem[]>(
+    () => [
+      { id: 'primary', label: countryViewCountry, color: seriesColor(0), baselines: getSeriesBaselines(data, countryViewCountry, WHOLE_COUNTRY_OPTION, activeRange) },
+      ...countryComparisons
+        .map((s, i) => ({ s, i: i + 1 }))
+        .filter(({ s }) => !s.hidden)
+        .map(({ s, i }) => ({ id: s.id, label: labelOf(s), color: seriesColor(i), baselines: getSeriesBaselines(data, s.country, s.region, activeRange) })),
+    ],
+    [countryViewCountry, countryComparisons, data, activeRange, regionsOf]
+  );
+
+  // ==========================================
+  // EXPORT
+  // ==========================================
+  const shownRange = activeRange ?? dataExtent;
+  const exportDetails = (selection: string, id?: TrendChartId) => [
+    selection,
+    `Dates: ${shownRange ? `${shownRange.start} to ${shownRange.end}` : 'none'}`,
+    population ? `Country averages population-weighted (${population.name})` : 'Country averages unweighted',
+    ...(activeBaselineType !== null ? [`Baseline type: ${activeBaselineType || 'unnamed'} only`] : []),
+    ...(id ? [`Smoothing: ${describeSmoothing(smoothing[id])}`] : []),
+  ];
+
+  const visibleRegionSeries = series.map((s, i) => ({ s, i })).filter(({ s }) => !s.hidden);
+  const regionSelection = `Series: ${visibleRegionSeries.map(({ s }) => describeSeries(s)).join(', ')}`;
+  const regionLegend: LegendEntry[] = visibleRegionSeries.map(({ s, i }) => ({ label: labelOf(s), color: seriesColor(i) }));
+  const regionColumns = (metric: MovementMetric) =>
+    visibleRegionSeries.map(({ s, i }) => ({ key: `${metric}_${i}`, label: describeSeries(s) }));
+
+  const visibleOverview = overviewLabels.map((label, i) => ({ label, i })).filter(({ i }) => !overviewHidden[i]);
+  const countrySelection = isCountryCompareMode
+    ? `Country: ${countryViewCountry} compared with ${countryComparisons.filter(s => !s.hidden).map(describeSeries).join(', ') || 'none'}`
+    : `Country: ${countryViewCountry}`;
+  const countryLegend: LegendEntry[] = isCountryCompareMode
+    ? visibleOverview.map(({ label, i }) => ({ label, color: seriesColor(i) }))
+    : [];
+  const countryColumns = (metric: MovementMetric) => isCountryCompareMode
+    ? visibleOverview.map(({ label, i }) => ({ key: `${metric}_${i}`, label }))
+    : [{ key: metric === 'mobility' ? 'avgMobility' : 'avgStay', label: countryViewCountry }];
+
+  const chartExport = (
+    id: TrendChartId,
+    title: string,
+    selection: string,
+    legend: LegendEntry[],
+    rows: { ds: string }[],
+    columns: { key: string; label: string }[]
+  ) => (
+    <ChartExportMenu
+      meta={{ title, details: exportDetails(selection, id) }}
+      target={() => chartRefs.current[id] ?? null}
+      legend={legend}
+      csv={() => chartCsv(rows, columns, isSmoothing(smoothing[id]))}
+    />
+  );
+
+  const matrixCsv = (): CsvTable => ({
+    header: [
+      'Region', 'Avg Mobility', 'Min Mobility', 'Avg Stay Home', 'Max Stay Home', 'Coverage', 'Data Points',
+      'Trough Date', 'Trough Depth', 'Days to Trough', 'Recovery Date', 'Area Under Baseline (days)',
+    ],
+    rows: sortedMatrix.map(r => [
+      r.name, r.avgMobility, r.minMobility, r.avgStay, r.maxStay, r.coverage, r.dataPoints,
+      r.troughDate, r.depth, r.daysToTrough, r.recoveryDate, r.areaUnderBaseline,
+    ]),
+  });
 
   const handleSort = (key: keyof RegionStats) => {
     let direction: 'asc' | 'desc' = 'asc';
@@ -381,10 +672,25 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
   };
 
 
-  if (!selectedCountry && !countryViewCountry) {
+  if (!primarySeries.country && !countryViewCountry) {
     return <div className="text-center p-10">No data available.</div>;
   }
 
+  if (showReport && countryOverviewData1) {
+    return (
+      <CountryReport
+        country={countryViewCountry}
+        aggregate={countryOverviewData1}
+        weighting={weightingNote(countryOverviewData1)}
+        mobilitySmoothing={smoothing.countryMobility}
+        staySmoothing={smoothing.countryStay}
+        events={annotationsForScopes(annotations, [getSeriesScope(data, countryViewCountry, WHOLE_COUNTRY_OPTION)], activeRange)}
+        onClose={() => setShowReport(false)}
+      />
+    );
+  }
+
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50">
       {/* Header */}
@@ -416,19 +722,90 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
              </button>
           </div>
 
-          <button
-            onClick={onReset}
-            className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-full transition-colors flex items-center border border-slate-700"
-          >
-            <XCircle className="w-3 h-3 mr-1.5" />
-            Upload New File
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowSources(!showSources)}
+              className={`text-xs px-3 py-1.5 rounded-full transition-colors flex items-center border ${
+                showSources ? 'bg-slate-600 border-slate-500' : 'bg-slate-800 hover:bg-slate-700 border-slate-700'
+              }`}
+            >
+              <Database className="w-3 h-3 mr-1.5" />
+              Sources ({sources.length})
+            </button>
+            <button
+              onClick={() => setShowEvents(!showEvents)}
+              className={`text-xs px-3 py-1.5 rounded-full transition-colors flex items-center border ${
+                showEvents ? 'bg-slate-600 border-slate-500' : 'bg-slate-800 hover:bg-slate-700 border-slate-700'
+              }`}
+            >
+              <Flag className="w-3 h-3 mr-1.5" />
+              Events ({annotations.length})
+            </button>
+            <button
+              onClick={() => setShowReport(true)}
+              disabled={!countryOverviewData1}
+              title={`Printable briefing for ${countryViewCountry}`}
+              className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-full transition-colors flex items-center border border-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <FileText className="w-3 h-3 mr-1.5" />
+              Report
+            </button>
+            <button
+              onClick={onReset}
+              className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-full transition-colors flex items-center border border-slate-700"
+            >
+              <XCircle className="w-3 h-3 mr-1.5" />
+              Upload New File
+            </button>
+          </div>
         </div>
       </header>
 
       <main className="flex-1 p-4 md:p-8">
         <div className="max-w-7xl mx-auto space-y-6">
 
+          {showSources && (
+            <DataSourcesPanel
+              sources={sources}
+              mergedRowCount={loadedData.rowCount}
+              dedupeRule={dedupeRule}
+              onDedupeRuleChange={onDedupeRuleChange}
+              onAddFile={onAddFile}
+              onRemoveSource={onRemoveSource}
+            />
+          )}
+
+          {showEvents && (
+            <AnnotationsPanel
+              data={data}
+              countries={countries}
+              regionsOf={regionsOf}
+              extent={dataExtent}
+              annotations={annotations}
+              onChange={handleAnnotationsChange}
+            />
+          )}
+
+          {dataExtent && (
+            <DateRangeControl
+              extent={dataExtent}
+              range={activeRange}
+              onChange={setDateRange}
+            />
+          )}
+
+          <PopulationWeightsControl data={data} population={population} onChange={setPopulation} />
+
+          <BaselineControl data={loadedData} baselineType={activeBaselineType} onChange={setBaselineType} />
+
+          <PolygonSourceControl
+            data={baselineData}
+            sourceByCountry={sourceByCountry}
+            onSourceChange={(country, source) => setSourceByCountry(prev => ({ ...prev, [country]: source }))}
+            parentMapping={parentMapping}
+            onParentMappingChange={setParentMapping}
+          />
+
           {/* ========================================================================================= */}
           {/* VIEW: COUNTRY OVERVIEW */}
           {/* ========================================================================================= */}
@@ -446,23 +823,18 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                           <p className="text-sm text-slate-500">Aggregated stats & regional breakdown</p>
                         </div>
                       </div>
-                      <button
-                        onClick={() => setIsCountryCompareMode(!isCountryCompareMode)}
-                        className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-all ${
-                          isCountryCompareMode 
-                            ? 'bg-purple-100 text-purple-700 border border-purple-200 shadow-sm' 
-                            : 'bg-slate-100 text-slate-600 border border-slate-200 hover:bg-slate-200'
-                        }`}
-                      >
-                        <GitCompare className="w-4 h-4 mr-2" />
-                        {isCountryCompareMode ? 'Disable Comparison' : 'Compare'}
-                      </button>
+                      {isCountryCompareMode && (
+                        <span className="flex items-center text-xs font-medium text-slate-500">
+                          <GitCompare className="w-4 h-4 mr-1.5" />
+                          {countryComparisons.length} comparison{countryComparisons.length === 1 ? '' : 's'}
+                        </span>
+                      )}
                   </div>
 
                   <div className="flex flex-col md:flex-row gap-6">
                       <div className="w-full md:w-1/3">
                         <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center">
-                          <span className="w-2 h-2 rounded-full bg-blue-600 mr-2"></span>
+                          <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: seriesColor(0) }}></span>
                           Primary Country
                         </label>
                         <select
@@ -476,139 +848,125 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                         </select>
                       </div>
 
-                      {isCountryCompareMode && (
-                         <div className="w-full md:w-2/3 animate-in fade-in slide-in-from-right-4">
-                            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 flex items-center">
-                               <span className="w-2 h-2 rounded-full bg-purple-600 mr-2"></span>
-                               Comparison Source
-                            </label>
-                            
-                            <div className="flex flex-col md:flex-row gap-4">
-                                {/* Type Selector */}
-                                <div className="flex bg-slate-100 rounded-lg p-1 h-10 min-w-fit">
-                                    <button 
-                                        onClick={() => setCountryCompareType('country')}
-                                        className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${countryCompareType === 'country' ? 'bg-white text-purple-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
-                                    >
-                                        Another Country
-                                    </button>
-                                    <button 
-                                        onClick={() => setCountryCompareType('region')}
-                                        className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${countryCompareType === 'region' ? 'bg-white text-purple-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
-                                    >
-                                        Region in {countryViewCountry}
-                                    </button>
-                                </div>
-
-                                {/* Value Selector */}
-                                <div className="flex-1">
-                                    {countryCompareType === 'country' ? (
-                                        <select
-                                          className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-2.5 h-10"
-                                          value={countryViewCountry2}
-                                          onChange={(e) => setCountryViewCountry2(e.target.value)}
-                                        >
-                                          {countries.map((c) => (
-                                            <option key={c} value={c}>{c}</option>
-                                          ))}
-                                        </select>
-                                    ) : (
-                                        <select
-                                          className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-purple-500 focus:border-purple-500 block p-2.5 h-10"
-                                          value={countryViewRegion}
-                                          onChange={(e) => setCountryViewRegion(e.target.value)}
-                                        >
-                                          {countryViewAvailableRegions.map((r) => (
-                                            <option key={r} value={r}>{r}</option>
-                                          ))}
-                                        </select>
-                                    )}
-                                </div>
-                            </div>
-                         </div>
-                      )}
+                      <div className="w-full md:w-2/3">
+                        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
+                          Compare Against
+                        </label>
+                        <SeriesListEditor
+                          series={countryComparisons}
+                          countries={countries}
+                          regionsOf={regionsOf}
+                          onChange={setCountryComparisons}
+                          colorOffset={1}
+                          seed={[{ id: 'primary', country: countryViewCountry, region: WHOLE_COUNTRY_OPTION, hidden: false }]}
+                        />
+                      </div>
                   </div>
                </div>
 
-               {countryOverviewData1 && (
+               {countryOverviewData1 && matrixCurves && similarityCurves && (
                  <>
                   {/* Summary Cards */}
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
                        <p className="text-sm text-slate-500 font-medium mb-1">Total Regions Tracked</p>
                        <div className="flex flex-col gap-1">
-                          <div className="flex items-center">
-                             <MapPin className="w-5 h-5 text-indigo-500 mr-2" />
-                             <span className="text-2xl font-bold text-slate-800">{countryOverviewData1.totalRegions}</span>
-                             {isCountryCompareMode && <span className="ml-2 text-xs font-semibold text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded">Pri</span>}
-                          </div>
-                          {isCountryCompareMode && countryOverviewData2 && (
-                             <div className="flex items-center pt-2 border-t border-slate-100">
-                                <span className="text-xl font-bold text-slate-600 ml-7">{countryOverviewData2.totalRegions}</span>
-                                <span className="ml-2 text-xs font-semibold text-purple-600 bg-purple-50 px-1.5 py-0.5 rounded">Cmp</span>
+                          {overviewAggregates.map((agg, i) => agg && !overviewHidden[i] && (
+                             <div key={i} className={`flex items-center ${i > 0 ? 'pt-2 border-t border-slate-100' : ''}`}>
+                                {i === 0 ? (
+                                  <MapPin className="w-5 h-5 text-indigo-500 mr-2" />
+                                ) : (
+                                  <span className="w-5 mr-2"></span>
+                                )}
+                                <span className={i === 0 ? 'text-2xl font-bold text-slate-800' : 'text-xl font-bold text-slate-600'}>{agg.totalRegions}</span>
+                                {isCountryCompareMode && (
+                                  <span className="ml-2 flex items-center text-xs font-semibold text-slate-500 truncate">
+                                    <span className="w-2 h-2 rounded-full mr-1.5 shrink-0" style={{ backgroundColor: seriesColor(i) }}></span>
+                                    {overviewLabels[i]}
+                                  </span>
+                                )}
                              </div>
-                          )}
+                          ))}
                        </div>
                     </div>
-                    
+
                     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
                        <p className="text-sm text-slate-500 font-medium mb-1">Avg Mobility Change</p>
                        <div className="flex flex-col gap-1">
-                          <div className="flex items-center">
-                            <Activity className="w-5 h-5 text-blue-500 mr-2" />
-                            <span className={`text-2xl font-bold ${
-                              (countryOverviewData1.matrix.reduce((sum, r) => sum + r.avgMobility, 0) / countryOverviewData1.totalRegions) < 0 
-                              ? 'text-red-600' : 'text-green-600'
-                            }`}>
-                              {((countryOverviewData1.matrix.reduce((sum, r) => sum + r.avgMobility, 0) / countryOverviewData1.totalRegions) * 100).toFixed(1)}%
-                            </span>
-                            {isCountryCompareMode && <span className="ml-2 text-xs font-semibold text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded">Pri</span>}
-                          </div>
-                          
-                          {isCountryCompareMode && countryOverviewData2 && (
-                             <div className="flex items-center pt-2 border-t border-slate-100">
-                                <span className={`text-xl font-bold ml-7 ${
-                                  (countryOverviewData2.matrix.reduce((sum, r) => sum + r.avgMobility, 0) / countryOverviewData2.totalRegions) < 0 
-                                  ? 'text-red-500' : 'text-green-500'
+                          {overviewAggregates.map((agg, i) => {
+                            if (!agg || overviewHidden[i]) return null;
+                            const avg = overviewAvgMobility[i];
+                            return (
+                              <div key={i} className={`flex items-center ${i > 0 ? 'pt-2 border-t border-slate-100' : ''}`}>
+                                {i === 0 ? (
+                                  <Activity className="w-5 h-5 text-blue-500 mr-2" />
+                                ) : (
+                                  <span className="w-5 mr-2"></span>
+                                )}
+                                <span className={`font-bold ${i === 0 ? 'text-2xl' : 'text-xl'} ${
+                                  avg === null ? 'text-slate-400' : avg < 0 ? 'text-red-600' : 'text-green-600'
                                 }`}>
-                                  {((countryOverviewData2.matrix.reduce((sum, r) => sum + r.avgMobility, 0) / countryOverviewData2.totalRegions) * 100).toFixed(1)}%
+                                  {formatPercent(avg, 1)}
                                 </span>
-                                <span className="ml-2 text-xs font-semibold text-purple-600 bg-purple-50 px-1.5 py-0.5 rounded">Cmp</span>
-                             </div>
-                          )}
+                                {isCountryCompareMode && (
+                                  <span className="ml-2 flex items-center text-xs font-semibold text-slate-500 truncate">
+                                    <span className="w-2 h-2 rounded-full mr-1.5 shrink-0" style={{ backgroundColor: seriesColor(i) }}></span>
+                                    {overviewLabels[i]}
+                                  </span>
+                                )}
+                              </div>
+                            );
+                          })}
                        </div>
+                       <p className="text-xs text-slate-400 mt-2 ml-7">{weightingNote(countryOverviewData1)}</p>
                     </div>
 
                     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
                        <p className="text-sm text-slate-500 font-medium mb-1">Dataset Range</p>
-                       <div className="flex items-center h-full">
+                       <div className="flex items-center">
                          <Calendar className="w-5 h-5 text-teal-500 mr-2" />
                          <span className="text-sm font-semibold text-slate-800">
                            {countryOverviewData1.trend[0]?.ds} — {countryOverviewData1.trend[countryOverviewData1.trend.length - 1]?.ds}
                          </span>
                        </div>
+                       <p className="text-xs text-slate-400 mt-2 ml-7">
+                         Avg daily coverage: {(averageCoverage(countryOverviewData1.trend) * 100).toFixed(0)}% of regions
+                       </p>
                     </div>
                   </div>
 
+                  <PhaseMetricsCards items={countryPhases} />
+
+                  <SeriesBaselines items={countryBaselines} />
+
                   {/* Aggregated Charts */}
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
-                       <h3 className="text-md font-bold text-slate-800 mb-4">Mobility Trend</h3>
-                       <div className="h-[300px]">
+                       <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                         <h3 className="text-md font-bold text-slate-800">Mobility Trend</h3>
+                         <div className="flex flex-wrap items-center gap-2">
+                           {smoothingControl('countryMobility')}
+                           {chartExport('countryMobility', 'Mobility Trend', countrySelection, countryLegend, countryMobilityData, countryColumns('mobility'))}
+                         </div>
+                       </div>
+                       <div className="h-[300px]" ref={el => { chartRefs.current.countryMobility = el; }}>
                          <ResponsiveContainer width="100%" height="100%">
                             {isCountryCompareMode ? (
-                                <LineChart data={countryComparisonChartData}>
+                                <LineChart data={countryMobilityData}>
                                     <CartesianGrid strokeDasharray="3 3" vertical={false} />
                                     <XAxis dataKey="ds" hide />
                                     <YAxis tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} fontSize={10} />
-                                    <Tooltip formatter={(v: number, name) => [`${(v * 100).toFixed(2)}%`, name]} />
+                                    <Tooltip formatter={trendTooltip(smoothing.countryMobility)} />
+                                    {eventMarkers(countryEvents)}
                                     <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="3 3" />
-                                    <Legend />
-                                    <Line type="monotone" dataKey="primary_mobility" name={countryViewCountry} stroke="#2563eb" strokeWidth={2} dot={false} />
-                                    <Line type="monotone" dataKey="secondary_mobility" name={countryCompareType === 'country' ? countryViewCountry2 : countryViewRegion} stroke="#9333ea" strokeWidth={2} dot={false} strokeDasharray="5 5" />
+                                    <Legend onClick={(entry) => toggleComparison(seriesIndexOf(entry.dataKey))} wrapperStyle={{ cursor: 'pointer' }} />
+                                    {overviewLabels.map((label, i) => (
+                                        <Line key={i} type="monotone" dataKey={`mobility_${i}`} name={label} stroke={seriesColor(i)} strokeWidth={2} dot={false} hide={overviewHidden[i]} />
+                                    ))}
+                                    {rangeBrush(countryMobilityData)}
                                 </LineChart>
                             ) : (
-                                <AreaChart data={countryOverviewData1.trend}>
+                                <AreaChart data={countryMobilityData}>
                                     <defs>
                                         <linearGradient id="colorAvgMob" x1="0" y1="0" x2="0" y2="1">
                                             <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.2}/>
@@ -618,30 +976,41 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                                     <CartesianGrid strokeDasharray="3 3" vertical={false} />
                                     <XAxis dataKey="ds" hide />
                                     <YAxis tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} fontSize={10} />
-                                    <Tooltip formatter={(v: number) => [`${(v * 100).toFixed(2)}%`, 'Avg Mobility']} />
+                                    <Tooltip formatter={trendTooltip(smoothing.countryMobility, 'Avg Mobility')} labelFormatter={coverageLabel} />
+                                    {eventMarkers(countryEvents)}
                                     <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="3 3" />
                                     <Area type="monotone" dataKey="avgMobility" stroke="#3b82f6" fillOpacity={1} fill="url(#colorAvgMob)" />
+                                    {rangeBrush(countryMobilityData)}
                                 </AreaChart>
                             )}
                          </ResponsiveContainer>
                        </div>
                     </div>
                     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
-                       <h3 className="text-md font-bold text-slate-800 mb-4">Stay-at-Home Trend</h3>
-                        <div className="h-[300px]">
+                       <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                         <h3 className="text-md font-bold text-slate-800">Stay-at-Home Trend</h3>
+                         <div className="flex flex-wrap items-center gap-2">
+                           {smoothingControl('countryStay')}
+                           {chartExport('countryStay', 'Stay-at-Home Trend', countrySelection, countryLegend, countryStayData, countryColumns('stay'))}
+                         </div>
+                       </div>
+                        <div className="h-[300px]" ref={el => { chartRefs.current.countryStay = el; }}>
                          <ResponsiveContainer width="100%" height="100%">
                             {isCountryCompareMode ? (
-                                <LineChart data={countryComparisonChartData}>
+                                <LineChart data={countryStayData}>
                                     <CartesianGrid strokeDasharray="3 3" vertical={false} />
                                     <XAxis dataKey="ds" hide />
                                     <YAxis tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} fontSize={10} />
-                                    <Tooltip formatter={(v: number, name) => [`${(v * 100).toFixed(2)}%`, name]} />
-                                    <Legend />
-                                    <Line type="monotone" dataKey="primary_stay" name={countryViewCountry} stroke="#059669" strokeWidth={2} dot={false} />
-                                    <Line type="monotone" dataKey="secondary_stay" name={countryCompareType === 'country' ? countryViewCountry2 : countryViewRegion} stroke="#d97706" strokeWidth={2} dot={false} strokeDasharray="5 5" />
+                                    <Tooltip formatter={trendTooltip(smoothing.countryStay)} />
+                                    {eventMarkers(countryEvents)}
+                                    <Legend onClick={(entry) => toggleComparison(seriesIndexOf(entry.dataKey))} wrapperStyle={{ cursor: 'pointer' }} />
+                                    {overviewLabels.map((label, i) => (
+                                        <Line key={i} type="monotone" dataKey={`stay_${i}`} name={label} stroke={seriesColor(i)} strokeWidth={2} dot={false} hide={overviewHidden[i]} />
+                                    ))}
+                                    {rangeBrush(countryStayData)}
                                 </LineChart>
                             ) : (
-                                <AreaChart data={countryOverviewData1.trend}>
+                                <AreaChart data={countryStayData}>
                                     <defs>
                                         <linearGradient id="colorAvgStay" x1="0" y1="0" x2="0" y2="1">
                                             <stop offset="5%" stopColor="#8b5cf6" stopOpacity={0.2}/>
@@ -651,8 +1020,10 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                                     <CartesianGrid strokeDasharray="3 3" vertical={false} />
                                     <XAxis dataKey="ds" hide />
                                     <YAxis tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} fontSize={10} />
-                                    <Tooltip formatter={(v: number) => [`${(v * 100).toFixed(2)}%`, 'Avg Stay Home']} />
+                                    <Tooltip formatter={trendTooltip(smoothing.countryStay, 'Avg Stay Home')} labelFormatter={coverageLabel} />
+                                    {eventMarkers(countryEvents)}
                                     <Area type="monotone" dataKey="avgStay" stroke="#8b5cf6" fillOpacity={1} fill="url(#colorAvgStay)" />
+                                    {rangeBrush(countryStayData)}
                                 </AreaChart>
                             )}
                          </ResponsiveContainer>
@@ -660,28 +1031,41 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                     </div>
                   </div>
 
+                  {/* Choropleth Map */}
+                  <RegionMapPanel
+                    data={data}
+                    country={countryViewCountry}
+                    source={sourceByCountry[countryViewCountry]}
+                    dates={countryOverviewDates}
+                    boundaries={boundaries}
+                    onBoundariesChange={setBoundaries}
+                    onSelectRegion={handleMapRegionSelect}
+                  />
+
                   {/* Regional Matrix Table */}
                   <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
                      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row justify-between items-center gap-4">
                         <div className="flex items-center gap-4">
                            <h3 className="font-bold text-slate-800">Regional Performance Matrix</h3>
                            <span className="text-xs text-slate-400 bg-white px-2 py-1 border rounded">{sortedMatrix.length} regions</span>
+                           <ChartExportMenu
+                             meta={{ title: 'Regional Performance Matrix', details: exportDetails(`Country: ${overviewLabels[matrixIndex]}`) }}
+                             csv={matrixCsv}
+                           />
                         </div>
-                        
+
                         {isCountryCompareMode && (
-                            <div className="flex bg-slate-200 p-1 rounded-lg">
-                                <button 
-                                    onClick={() => setMatrixTab('primary')}
-                                    className={`px-3 py-1 text-xs font-semibold rounded-md transition-all ${matrixTab === 'primary' ? 'bg-white shadow text-blue-700' : 'text-slate-500 hover:text-slate-700'}`}
-                                >
-                                    {countryViewCountry}
-                                </button>
-                                <button 
-                                    onClick={() => setMatrixTab('secondary')}
-                                    className={`px-3 py-1 text-xs font-semibold rounded-md transition-all ${matrixTab === 'secondary' ? 'bg-white shadow text-purple-700' : 'text-slate-500 hover:text-slate-700'}`}
-                                >
-                                    {countryCompareType === 'country' ? countryViewCountry2 : countryViewRegion}
-                                </button>
+                            <div className="flex flex-wrap bg-slate-200 p-1 rounded-lg">
+                                {overviewLabels.map((label, i) => (
+                                    <button
+                                        key={i}
+                                        onClick={() => setMatrixSeries(i)}
+                                        className={`flex items-center px-3 py-1 text-xs font-semibold rounded-md transition-all ${matrixIndex === i ? 'bg-white shadow text-slate-800' : 'text-slate-500 hover:text-slate-700'}`}
+                                    >
+                                        <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: seriesColor(i) }}></span>
+                                        {label}
+                                    </button>
+                                ))}
                             </div>
                         )}
                      </div>
@@ -704,31 +1088,99 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                                   <th className="px-6 py-3 cursor-pointer hover:bg-slate-100 text-right" onClick={() => handleSort('maxStay')}>
                                     <div className="flex items-center justify-end">Max Stay Home <ArrowUpDown className="w-3 h-3 ml-1" /></div>
                                  </th>
+                                 <th className="px-6 py-3 cursor-pointer hover:bg-slate-100 text-right" onClick={() => handleSort('coverage')}>
+                                    <div className="flex items-center justify-end">Coverage <ArrowUpDown className="w-3 h-3 ml-1" /></div>
+                                 </th>
+                                 <th className="px-6 py-3 cursor-pointer hover:bg-slate-100 text-right" onClick={() => handleSort('troughDate')}>
+                                    <div className="flex items-center justify-end">Trough <ArrowUpDown className="w-3 h-3 ml-1" /></div>
+                                 </th>
+                                 <th className="px-6 py-3 cursor-pointer hover:bg-slate-100 text-right" onClick={() => handleSort('depth')}>
+                                    <div className="flex items-center justify-end">Depth <ArrowUpDown className="w-3 h-3 ml-1" /></div>
+                                 </th>
+                                 <th className="px-6 py-3 cursor-pointer hover:bg-slate-100 text-right" onClick={() => handleSort('daysToTrough')}>
+                                    <div className="flex items-center justify-end">Days to Trough <ArrowUpDown className="w-3 h-3 ml-1" /></div>
+                                 </th>
+                                 <th className="px-6 py-3 cursor-pointer hover:bg-slate-100 text-right" onClick={() => handleSort('recoveryDate')}>
+                                    <div className="flex items-center justify-end">Recovered <ArrowUpDown className="w-3 h-3 ml-1" /></div>
+                                 </th>
+                                 <th className="px-6 py-3 cursor-pointer hover:bg-slate-100 text-right" onClick={() => handleSort('areaUnderBaseline')}>
+                                    <div className="flex items-center justify-end">Area Under Baseline <ArrowUpDown className="w-3 h-3 ml-1" /></div>
+                                 </th>
                               </tr>
                            </thead>
                            <tbody className="divide-y divide-slate-100">
-                              {sortedMatrix.map((region) => (
-                                 <tr key={region.name} className="hover:bg-slate-50 transition-colors">
-                                    <td className="px-6 py-4 font-medium text-slate-900">{region.name}</td>
+                              {matrixRows.map(({ region, depth, children }) => (
+                                 <tr key={`${depth}:${region.key}`} className={`group hover:bg-slate-50 transition-colors ${depth > 0 ? 'bg-slate-50/50' : ''}`}>
+                                    <td className={`px-6 py-4 text-slate-900 ${depth > 0 ? 'font-normal' : 'font-medium'}`}>
+                                       <div className="flex items-center gap-2" style={{ paddingLeft: depth * 20 }}>
+                                          {parentMapping && (
+                                             children > 0 ? (
+                                                <button
+                                                   onClick={() => toggleExpanded(region.key)}
+                                                   className="p-0.5 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+                                                   title={`${expandedRegions.has(region.key) ? 'Hide' : 'Show'} the ${children} regions within ${region.name}`}
+                                                >
+                                                   {expandedRegions.has(region.key) ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                                </button>
+                                             ) : (
+                                                <span className="w-5"></span>
+                                             )
+                                          )}
+                                          {region.name}
+                                          {depth === 0 && (
+                                             <button
+                                                onClick={() => setSimilarTarget({ country: matrixCountry, region: region.key })}
+                                                className="p-1 rounded text-slate-400 hover:text-blue-600 hover:bg-blue-50 opacity-0 group-hover:opacity-100 transition-all"
+                                                title={`Find regions similar to ${region.name}`}
+                                             >
+                                                <Search className="w-3.5 h-3.5" />
+                                             </button>
+                                          )}
+                                       </div>
+                                    </td>
                                     
                                     <td className="px-6 py-4 text-right">
                                        <span className={`px-2 py-1 rounded-full text-xs font-bold ${
-                                          region.avgMobility < 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+                                          region.avgMobility === null ? 'bg-slate-50 text-slate-400' : region.avgMobility < 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
                                        }`}>
-                                          {region.avgMobility > 0 ? '+' : ''}{(region.avgMobility * 100).toFixed(1)}%
+                                          {region.avgMobility !== null && region.avgMobility > 0 ? '+' : ''}{formatPercent(region.avgMobility, 1)}
                                        </span>
                                     </td>
 
                                      <td className="px-6 py-4 text-right text-slate-500">
-                                       {(region.minMobility * 100).toFixed(1)}%
+                                       {formatPercent(region.minMobility, 1)}
                                     </td>
 
                                     <td className="px-6 py-4 text-right">
-                                       {(region.avgStay * 100).toFixed(1)}%
+                                       {formatPercent(region.avgStay, 1)}
                                     </td>
 
                                     <td className="px-6 py-4 text-right font-semibold text-slate-700">
-                                       {(region.maxStay * 100).toFixed(1)}%
+                                       {formatPercent(region.maxStay, 1)}
+                                    </td>
+
+                                    <td className={`px-6 py-4 text-right text-xs ${region.coverage < 0.9 ? 'text-orange-600' : 'text-slate-400'}`}>
+                                       {(region.coverage * 100).toFixed(0)}%
+                                    </td>
+
+                                    <td className="px-6 py-4 text-right text-xs whitespace-nowrap">
+                                       {region.troughDate ?? '—'}
+                                    </td>
+
+                                    <td className="px-6 py-4 text-right">
+                                       {formatPercent(region.depth, 1)}
+                                    </td>
+
+                                    <td className="px-6 py-4 text-right">
+                                       {region.daysToTrough ?? '—'}
+                                    </td>
+
+                                    <td className="px-6 py-4 text-right text-xs whitespace-nowrap">
+                                       {region.recoveryDate ?? '—'}
+                                    </td>
+
+                                    <td className="px-6 py-4 text-right text-slate-500">
+                                       {region.areaUnderBaseline === null || region.areaUnderBaseline === undefined ? '—' : `${region.areaUnderBaseline.toFixed(1)} d`}
                                     </td>
                                  </tr>
                               ))}
@@ -736,6 +1188,29 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                         </table>
                      </div>
                   </div>
+
+                  {/* Region x Date Heatmap */}
+                  <RegionHeatmapPanel
+                    data={data}
+                    country={matrixCountry}
+                    range={activeRange}
+                    mobilityCurves={matrixCurves}
+                    regions={sortedMatrix}
+                    sortConfig={sortConfig}
+                    onSortChange={setSortConfig}
+                    onSelectRegion={(regionKey) => openRegionAnalysis(matrixCountry, regionKey)}
+                  />
+
+                  {/* Similar Regions & Clusters */}
+                  <RegionSimilarityPanel
+                    data={data}
+                    country={similarityCountry}
+                    range={activeRange}
+                    mobilityCurves={similarityCurves}
+                    target={similarTarget?.region ?? null}
+                    onTargetChange={(region) => setSimilarTarget(region ? { country: similarityCountry, region } : null)}
+                    onCompare={handleCompareRegions}
+                  />
                  </>
                )}
             </div>
@@ -753,107 +1228,29 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                     <Filter className="w-5 h-5 mr-2 text-slate-500" />
                     Comparative Analysis
                   </h2>
-                  
-                  <button
-                    onClick={() => setIsCompareMode(!isCompareMode)}
-                    className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-all ${
-                      isCompareMode 
-                        ? 'bg-blue-100 text-blue-700 border border-blue-200 shadow-sm' 
-                        : 'bg-slate-100 text-slate-600 border border-slate-200 hover:bg-slate-200'
-                    }`}
-                  >
-                    <GitCompare className="w-4 h-4 mr-2" />
-                    {isCompareMode ? 'Disable Comparison' : 'Compare Data Sets'}
-                  </button>
-                </div>
-
-                <div className="space-y-6">
-                  {/* Primary Selection Row */}
-                  <div className="flex flex-col md:flex-row gap-4 items-start">
-                    <div className="w-full md:w-auto md:min-w-[120px] pt-3">
-                      <span className="flex items-center text-sm font-bold text-blue-600 bg-blue-50 px-3 py-1 rounded-full w-max">
-                        <span className="w-2 h-2 rounded-full bg-blue-500 mr-2"></span>
-                        Primary
-                      </span>
-                    </div>
-                    
-                    <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 w-full">
-                      <div>
-                        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
-                          Country
-                        </label>
-                        <select
-                          className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
-                          value={selectedCountry}
-                          onChange={(e) => setSelectedCountry(e.target.value)}
-                        >
-                          {countries.map((c) => (
-                            <option key={c} value={c}>{c}</option>
-                          ))}
-                        </select>
-                      </div>
-
-                      <div>
-                        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
-                          Region / Aggregate ({primaryRegions.length - 1} regions)
-                        </label>
-                        <select
-                          className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
-                          value={selectedRegion}
-                          onChange={(e) => setSelectedRegion(e.target.value)}
-                        >
-                          {primaryRegions.map((r) => (
-                            <option key={r} value={r} className={r === WHOLE_COUNTRY_OPTION ? "font-bold text-blue-800 bg-blue-50" : ""}>{r}</option>
-                          ))}
-                        </select>
-                      </div>
-                    </div>
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-1 text-xs text-slate-500 cursor-pointer" title="Mark change points and outlying days, and rank the primary country's regions by their largest shift">
+                      <input
+                        type="checkbox"
+                        checked={showShifts}
+                        onChange={(e) => setShowShifts(e.target.checked)}
+                        className="accent-blue-600"
+                      />
+                      Detect shifts
+                    </label>
+                    <span className="text-xs text-slate-400">
+                      First series is the primary · click a legend entry to hide it
+                    </span>
                   </div>
-
-                  {/* Secondary Selection Row (Conditional) */}
-                  {isCompareMode && (
-                    <div className="flex flex-col md:flex-row gap-4 items-start border-t border-slate-100 pt-6 animate-in fade-in slide-in-from-top-2">
-                      <div className="w-full md:w-auto md:min-w-[120px] pt-3">
-                        <span className="flex items-center text-sm font-bold text-orange-600 bg-orange-50 px-3 py-1 rounded-full w-max">
-                          <span className="w-2 h-2 rounded-full bg-orange-500 mr-2"></span>
-                          Compare
-                        </span>
-                      </div>
-
-                      <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 w-full">
-                        <div>
-                          <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
-                            Comparison Country
-                          </label>
-                          <select
-                            className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 block p-2.5"
-                            value={selectedCountry2}
-                            onChange={(e) => setSelectedCountry2(e.target.value)}
-                          >
-                            {countries.map((c) => (
-                              <option key={c} value={c}>{c}</option>
-                            ))}
-                          </select>
-                        </div>
-
-                        <div>
-                          <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
-                            Comparison Region / Aggregate ({secondaryRegions.length - 1} regions)
-                          </label>
-                          <select
-                            className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-orange-500 focus:border-orange-500 block p-2.5"
-                            value={selectedRegion2}
-                            onChange={(e) => setSelectedRegion2(e.target.value)}
-                          >
-                            {secondaryRegions.map((r) => (
-                              <option key={r} value={r} className={r === WHOLE_COUNTRY_OPTION ? "font-bold text-orange-800 bg-orange-50" : ""}>{r}</option>
-                            ))}
-                          </select>
-                        </div>
-                      </div>
-                    </div>
-                  )}
                 </div>
+
+                <SeriesListEditor
+                  series={series}
+                  countries={countries}
+                  regionsOf={regionsOf}
+                  onChange={setSeries}
+                  minSeries={1}
+                />
               </div>
 
               {/* Stats Grid */}
@@ -864,23 +1261,21 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                       <h3 className="text-slate-500 text-sm font-medium">Avg Mobility Change</h3>
                       <Activity className="w-5 h-5 text-slate-400" />
                     </div>
-                    
+
                     <div className="flex flex-col gap-2">
-                      <div className="flex items-baseline justify-between">
-                        <span className={`text-2xl font-bold ${parseFloat(stats.avgMobility) < 0 ? 'text-red-600' : 'text-green-600'}`}>
-                            {parseFloat(stats.avgMobility) > 0 ? '+' : ''}{stats.avgMobility}%
-                        </span>
-                        {isCompareMode && <span className="text-xs font-bold text-blue-500 bg-blue-50 px-2 py-0.5 rounded">Pri</span>}
-                      </div>
-                      
-                      {isCompareMode && stats2 && (
-                        <div className="flex items-baseline justify-between pt-1 border-t border-slate-100">
-                            <span className={`text-xl font-bold ${parseFloat(stats2.avgMobility) < 0 ? 'text-red-600' : 'text-green-600'}`}>
-                                {parseFloat(stats2.avgMobility) > 0 ? '+' : ''}{stats2.avgMobility}%
+                      {visibleSeries.map(({ s, i, stats: st }, j) => (
+                        <div key={s.id} className={`flex items-baseline justify-between gap-2 ${j > 0 ? 'pt-1 border-t border-slate-100' : ''}`}>
+                          <span className={`font-bold ${j === 0 ? 'text-2xl' : 'text-xl'} ${st!.avgMobility === null ? 'text-slate-400' : parseFloat(st!.avgMobility) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                              {st!.avgMobility === null ? '—' : `${parseFloat(st!.avgMobility) > 0 ? '+' : ''}${st!.avgMobility}%`}
+                          </span>
+                          {visibleSeries.length > 1 && (
+                            <span className="flex items-center text-xs font-semibold text-slate-500 truncate" title={labelOf(s)}>
+                              <span className="w-2 h-2 rounded-full mr-1.5 shrink-0" style={{ backgroundColor: seriesColor(i) }}></span>
+                              {labelOf(s)}
                             </span>
-                            <span className="text-xs font-bold text-orange-500 bg-orange-50 px-2 py-0.5 rounded">Cmp</span>
+                          )}
                         </div>
-                      )}
+                      ))}
                     </div>
                   </div>
 
@@ -889,19 +1284,19 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                       <h3 className="text-slate-500 text-sm font-medium">Max Stay-at-Home</h3>
                       <Home className="w-5 h-5 text-indigo-500" />
                     </div>
-                    
+
                     <div className="flex flex-col gap-2">
-                      <div className="flex items-baseline justify-between">
-                        <span className="text-2xl font-bold text-slate-800">{stats.maxStayHome}%</span>
-                        {isCompareMode && <span className="text-xs font-bold text-blue-500 bg-blue-50 px-2 py-0.5 rounded">Pri</span>}
-                      </div>
-                      
-                      {isCompareMode && stats2 && (
-                        <div className="flex items-baseline justify-between pt-1 border-t border-slate-100">
-                            <span className="text-xl font-bold text-slate-800">{stats2.maxStayHome}%</span>
-                            <span className="text-xs font-bold text-orange-500 bg-orange-50 px-2 py-0.5 rounded">Cmp</span>
+                      {visibleSeries.map(({ s, i, stats: st }, j) => (
+                        <div key={s.id} className={`flex items-baseline justify-between gap-2 ${j > 0 ? 'pt-1 border-t border-slate-100' : ''}`}>
+                          <span className={`font-bold text-slate-800 ${j === 0 ? 'text-2xl' : 'text-xl'}`}>{st!.maxStayHome === null ? '—' : `${st!.maxStayHome}%`}</span>
+                          {visibleSeries.length > 1 && (
+                            <span className="flex items-center text-xs font-semibold text-slate-500 truncate" title={labelOf(s)}>
+                              <span className="w-2 h-2 rounded-full mr-1.5 shrink-0" style={{ backgroundColor: seriesColor(i) }}></span>
+                              {labelOf(s)}
+                            </span>
+                          )}
                         </div>
-                      )}
+                      ))}
                     </div>
                   </div>
 
@@ -923,73 +1318,73 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                     </div>
                     <div className="flex items-baseline gap-2">
                         <p className="text-2xl font-bold text-slate-800">{stats.count}</p>
-                        <span className="text-sm text-slate-400">records</span>
+                        <span className="text-sm text-slate-400">of {stats.totalDays} days</span>
                     </div>
-                    {isCompareMode && stats2 && (
-                        <p className="text-xs text-slate-400 mt-1">Comparison has {stats2.count} records</p>
-                    )}
+                    <p className="text-xs text-slate-400 mt-1">{(stats.coverage * 100).toFixed(0)}% coverage</p>
+                    {visibleSeries.filter(v => v.i > 0).map(({ s, stats: st }) => (
+                        <p key={s.id} className="text-xs text-slate-400 mt-1 truncate">{labelOf(s)} has {st!.count} of {st!.totalDays} days</p>
+                    ))}
                   </div>
                 </div>
               )}
 
+              <PhaseMetricsCards items={regionPhases} />
+
+              <SeriesBaselines items={regionBaselines} />
+
               {/* Charts Area */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                
+
                 {/* Chart 1: Mobility Change */}
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
-                  <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center justify-between">
-                    <span>Relative Mobility Change</span>
-                    <span className="text-xs font-normal text-slate-400 bg-slate-100 px-2 py-1 rounded">Baseline: {primaryData[0]?.baseline_type || 'MIXED'}</span>
-                  </h3>
-                  <div className="h-[350px] w-full">
+                  <div className="mb-6 flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="text-lg font-bold text-slate-800">Relative Mobility Change</h3>
+                    <div className="flex flex-wrap items-center gap-3">
+                      {smoothingControl('regionMobility')}
+                      {chartExport('regionMobility', 'Relative Mobility Change', regionSelection, regionLegend, regionMobilityData, regionColumns('mobility'))}
+                      <span className="text-xs font-normal text-slate-400 bg-slate-100 px-2 py-1 rounded">Baseline: {regionBaselineLabel}</span>
+                    </div>
+                  </div>
+                  <div className="h-[350px] w-full" ref={el => { chartRefs.current.regionMobility = el; }}>
                     <ResponsiveContainer width="100%" height="100%">
-                      <LineChart data={comparisonChartData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                      <LineChart data={regionMobilityData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-                        <XAxis 
-                            dataKey="ds" 
-                            tick={{fontSize: 10}} 
-                            tickMargin={10} 
+                        <XAxis
+                            dataKey="ds"
+                            tick={{fontSize: 10}}
+                            tickMargin={10}
                             stroke="#94a3b8"
                             minTickGap={30}
                         />
-                        <YAxis 
-                            tickFormatter={(val) => `${(val * 100).toFixed(0)}%`} 
+                        <YAxis
+                            tickFormatter={(val) => `${(val * 100).toFixed(0)}%`}
                             tick={{fontSize: 10}}
                             stroke="#94a3b8"
                         />
-                        <Tooltip 
+                        <Tooltip
                             contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                            formatter={(value: number, name: string) => {
-                                if (value === null || value === undefined) return ['-', name];
-                                return [`${(value * 100).toFixed(2)}%`, name];
-                            }}
+                            formatter={trendTooltip(smoothing.regionMobility)}
                             labelStyle={{ color: '#64748b' }}
                         />
                         <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="3 3" />
-                        <Legend wrapperStyle={{paddingTop: '20px'}} />
-                        
-                        <Line 
-                            type="monotone" 
-                            dataKey="primary_mobility" 
-                            name={selectedRegion === WHOLE_COUNTRY_OPTION ? `${selectedCountry} (Avg)` : selectedRegion} 
-                            stroke="#3b82f6" 
-                            strokeWidth={2} 
-                            dot={false}
-                            activeDot={{ r: 6 }} 
-                        />
-                        
-                        {isCompareMode && (
-                            <Line 
-                                type="monotone" 
-                                dataKey="secondary_mobility" 
-                                name={selectedRegion2 === WHOLE_COUNTRY_OPTION ? `${selectedCountry2} (Avg)` : selectedRegion2} 
-                                stroke="#f97316" 
-                                strokeWidth={2} 
+                        {eventMarkers(regionEvents)}
+                        {series.map((s, i) => !s.hidden && shiftMarkers(seriesShifts[i]?.mobility, seriesColor(i), s.id, regionMobilityData, `mobility_${i}`))}
+                        <Legend wrapperStyle={{paddingTop: '20px', cursor: 'pointer'}} onClick={(entry) => toggleSeries(seriesIndexOf(entry.dataKey))} />
+
+                        {series.map((s, i) => (
+                            <Line
+                                key={s.id}
+                                type="monotone"
+                                dataKey={`mobility_${i}`}
+                                name={labelOf(s)}
+                                stroke={seriesColor(i)}
+                                strokeWidth={2}
                                 dot={false}
-                                activeDot={{ r: 6 }} 
-                                strokeDasharray="5 5"
+                                activeDot={{ r: 6 }}
+                                hide={s.hidden}
                             />
-                        )}
+                        ))}
+                        {rangeBrush(regionMobilityData)}
                       </LineChart>
                     </ResponsiveContainer>
                   </div>
@@ -997,74 +1392,77 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
 
                 {/* Chart 2: Stay at Home Ratio */}
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
-                  <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center justify-between">
-                    <span>Stay-at-Home Ratio</span>
-                    <span className="text-xs font-normal text-slate-400 bg-slate-100 px-2 py-1 rounded">Single Tile Users</span>
-                  </h3>
-                  <div className="h-[350px] w-full">
+                  <div className="mb-6 flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="text-lg font-bold text-slate-800">Stay-at-Home Ratio</h3>
+                    <div className="flex flex-wrap items-center gap-3">
+                      {smoothingControl('regionStay')}
+                      {chartExport('regionStay', 'Stay-at-Home Ratio', regionSelection, regionLegend, regionStayData, regionColumns('stay'))}
+                      <span className="text-xs font-normal text-slate-400 bg-slate-100 px-2 py-1 rounded">Single Tile Users</span>
+                    </div>
+                  </div>
+                  <div className="h-[350px] w-full" ref={el => { chartRefs.current.regionStay = el; }}>
                     <ResponsiveContainer width="100%" height="100%">
-                      <AreaChart data={comparisonChartData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                      <AreaChart data={regionStayData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
                         <defs>
-                            <linearGradient id="colorRatio" x1="0" y1="0" x2="0" y2="1">
-                                <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.1}/>
-                                <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
-                            </linearGradient>
-                            <linearGradient id="colorRatio2" x1="0" y1="0" x2="0" y2="1">
-                                <stop offset="5%" stopColor="#f97316" stopOpacity={0.1}/>
-                                <stop offset="95%" stopColor="#f97316" stopOpacity={0}/>
-                            </linearGradient>
+                            {series.map((s, i) => (
+                                <linearGradient key={s.id} id={`colorRatio${i}`} x1="0" y1="0" x2="0" y2="1">
+                                    <stop offset="5%" stopColor={seriesColor(i)} stopOpacity={0.1}/>
+                                    <stop offset="95%" stopColor={seriesColor(i)} stopOpacity={0}/>
+                                </linearGradient>
+                            ))}
                         </defs>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-                        <XAxis 
-                            dataKey="ds" 
-                            tick={{fontSize: 10}} 
-                            tickMargin={10} 
+                        <XAxis
+                            dataKey="ds"
+                            tick={{fontSize: 10}}
+                            tickMargin={10}
                             stroke="#94a3b8"
                             minTickGap={30}
                         />
-                        <YAxis 
-                            tickFormatter={(val) => `${(val * 100).toFixed(0)}%`} 
+                        <YAxis
+                            tickFormatter={(val) => `${(val * 100).toFixed(0)}%`}
                             tick={{fontSize: 10}}
                             stroke="#94a3b8"
                             domain={[0, 'auto']}
                         />
-                        <Tooltip 
+                        <Tooltip
                             contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                            formatter={(value: number, name: string) => {
-                                if (value === null || value === undefined) return ['-', name];
-                                return [`${(value * 100).toFixed(2)}%`, name];
-                            }}
+                            formatter={trendTooltip(smoothing.regionStay)}
                             labelStyle={{ color: '#64748b' }}
                         />
-                        <Legend wrapperStyle={{paddingTop: '20px'}} />
-                        
-                        <Area 
-                            type="monotone" 
-                            dataKey="primary_stay" 
-                            name={selectedRegion === WHOLE_COUNTRY_OPTION ? `${selectedCountry} (Avg)` : selectedRegion} 
-                            stroke="#3b82f6" 
-                            fillOpacity={1} 
-                            fill="url(#colorRatio)" 
-                            strokeWidth={2}
-                        />
-
-                        {isCompareMode && (
-                            <Area 
-                                type="monotone" 
-                                dataKey="secondary_stay" 
-                                name={selectedRegion2 === WHOLE_COUNTRY_OPTION ? `${selectedCountry2} (Avg)` : selectedRegion2} 
-                                stroke="#f97316" 
-                                fillOpacity={1} 
-                                fill="url(#colorRatio2)" 
+                        {eventMarkers(regionEvents)}
+                        {series.map((s, i) => !s.hidden && shiftMarkers(seriesShifts[i]?.stay, seriesColor(i), s.id, regionStayData, `stay_${i}`))}
+                        <Legend wrapperStyle={{paddingTop: '20px', cursor: 'pointer'}} onClick={(entry) => toggleSeries(seriesIndexOf(entry.dataKey))} />
+
+                        {series.map((s, i) => (
+                            <Area
+                                key={s.id}
+                                type="monotone"
+                                dataKey={`stay_${i}`}
+                                name={labelOf(s)}
+                                stroke={seriesColor(i)}
+                                fillOpacity={1}
+                                fill={`url(#colorRatio${i})`}
                                 strokeWidth={2}
-                                strokeDasharray="5 5"
+                                hide={s.hidden}
                             />
-                        )}
+                        ))}
+                        {rangeBrush(regionStayData)}
                       </AreaChart>
                     </ResponsiveContainer>
                   </div>
                 </div>
               </div>
+
+              {showShifts && (
+                <RegionShiftsPanel
+                  data={data}
+                  country={primarySeries.country}
+                  regions={regionsOf(primarySeries.country)}
+                  range={activeRange}
+                  onSelectRegion={(region) => setSeries(([first, ...rest]) => [{ ...first, region, hidden: false }, ...rest])}
+                />
+              )}
             </div>
           )}
 
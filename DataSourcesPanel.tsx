@@ -0,0 +1,101 @@
+import React from 'react';
+import { Database, FilePlus, FileText, Trash2 } from 'lucide-react';
+import { DataSource, DedupeRule } from '../types';
+import { DEDUPE_RULE_LABELS, getSourceDateSpan } from '../services/sourceService';
+
+interface DataSourcesPanelProps {
+  sources: DataSource[];
+  mergedRowCount: number;
+  dedupeRule: DedupeRule;
+  onDedupeRuleChange: (rule: DedupeRule) => void;
+  onAddFile: () => void;
+  onRemoveSource: (id: string) => void;
+}
+
+const DataSourcesPanel: React.FC<DataSourcesPanelProps> = ({
+  sources,
+  mergedRowCount,
+  dedupeRule,
+  onDedupeRuleChange,
+  onAddFile,
+  onRemoveSource,
+}) => {
+  const totalRows = sources.reduce((sum, s) => sum + s.dataset.rowCount, 0);
+  const overlapping = totalRows - mergedRowCount;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden animate-in fade-in slide-in-from-top-2">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row justify-between items-center gap-4">
+        <div className="flex items-center gap-4">
+          <Database className="w-5 h-5 text-slate-500" />
+          <h3 className="font-bold text-slate-800">Data Sources</h3>
+          <span className="text-xs text-slate-400 bg-white px-2 py-1 border rounded">{sources.length} files</span>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Duplicates</label>
+          <select
+            className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+            value={dedupeRule}
+            onChange={(e) => onDedupeRuleChange(e.target.value as DedupeRule)}
+          >
+            {(Object.keys(DEDUPE_RULE_LABELS) as DedupeRule[]).map(rule => (
+              <option key={rule} value={rule}>{DEDUPE_RULE_LABELS[rule]}</option>
+            ))}
+          </select>
+          <button
+            onClick={onAddFile}
+            className="flex items-center px-3 py-2 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-all"
+          >
+            <FilePlus className="w-4 h-4 mr-1.5" />
+            Add File
+          </button>
+        </div>
+      </div>
+
+      <table className="w-full text-sm text-left text-slate-600">
+        <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+          <tr>
+            <th className="px-6 py-3">File</th>
+            <th className="px-6 py-3 text-right">Rows</th>
+            <th className="px-6 py-3">Date Span</th>
+            <th className="px-6 py-3"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {sources.map(source => {
+            const span = getSourceDateSpan(source);
+            return (
+              <tr key={source.id} className="hover:bg-slate-50 transition-colors">
+                <td className="px-6 py-3 font-medium text-slate-900">
+                  <div className="flex items-center">
+                    <FileText className="w-4 h-4 text-slate-400 mr-2 shrink-0" />
+                    <span className="truncate">{source.fileName}</span>
+                  </div>
+                </td>
+                <td className="px-6 py-3 text-right">{source.dataset.rowCount.toLocaleString()}</td>
+                <td className="px-6 py-3 text-xs">{span ? `${span.start} — ${span.end}` : '—'}</td>
+                <td className="px-6 py-3 text-right">
+                  <button
+                    onClick={() => onRemoveSource(source.id)}
+                    className="text-slate-400 hover:text-red-600 transition-colors"
+                    title="Remove this file from the dataset"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="px-6 py-3 text-xs text-slate-400 border-t border-slate-100">
+        {mergedRowCount.toLocaleString()} rows after merging
+        {overlapping > 0 && ` · ${overlapping.toLocaleString()} duplicate (ds, polygon_id) rows resolved by "${DEDUPE_RULE_LABELS[dedupeRule]}"`}
+      </div>
+    </div>
+  );
+};
+
+export default DataSourcesPanel;
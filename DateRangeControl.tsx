@@ -0,0 +1,77 @@
+import React from 'react';
+import { CalendarRange } from 'lucide-react';
+import { DateRange } from '../types';
+import { DATE_RANGE_PRESETS } from '../services/dateRangeService';
+
+interface DateRangeControlProps {
+  extent: DateRange; // first and last day in the loaded data
+  range: DateRange | null;
+  onChange: (range: DateRange | null) => void;
+}
+
+// Typed dates and presets; the brushes under the trend charts narrow the same range by dragging
+const DateRangeControl: React.FC<DateRangeControlProps> = ({ extent, range, onChange }) => {
+  const active = range ?? extent;
+
+  const handleInput = (bound: 'start' | 'end', value: string) => {
+    if (!value) return;
+    const next = { ...active, [bound]: value };
+    if (next.start > next.end) return;
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <CalendarRange className="w-5 h-5 text-slate-500" />
+          <input
+            type="date"
+            value={active.start}
+            min={extent.start}
+            max={active.end}
+            onChange={(e) => handleInput('start', e.target.value)}
+            className="bg-slate-50 border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-1.5"
+          />
+          <span className="text-xs text-slate-400">to</span>
+          <input
+            type="date"
+            value={active.end}
+            min={active.start}
+            max={extent.end}
+            onChange={(e) => handleInput('end', e.target.value)}
+            className="bg-slate-50 border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-1.5"
+          />
+        </div>
+
+        <div className="flex flex-wrap bg-slate-100 rounded-lg p-1">
+          <button
+            onClick={() => onChange(null)}
+            className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${range === null ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            All dates
+          </button>
+          {DATE_RANGE_PRESETS.map(preset => {
+            const resolved = preset.resolve(extent);
+            // A preset stays highlighted only while the range is exactly its span, whichever control set it
+            const selected = range !== null && resolved !== null && resolved.start === range.start && resolved.end === range.end;
+            return (
+              <button
+                key={preset.id}
+                onClick={() => resolved && onChange(resolved)}
+                disabled={resolved === null}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                  selected ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {preset.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DateRangeControl;
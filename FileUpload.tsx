@@ -1,33 +1,76 @@
 import React, { useState } from 'react';
-import { Upload, FileText, AlertCircle } from 'lucide-react';
+import { Upload, FileText, AlertCircle, XCircle, ArrowLeft } from 'lucide-react';
+import { CachedDatasetEntry, ColumnMapping, FilePreview, IngestProgress, ParseReport, ValidationMode } from '../types';
+import ParseReportPanel from './ParseReportPanel';
+import ColumnMappingPanel from './ColumnMappingPanel';
+import RecentDatasetsPanel from './RecentDatasetsPanel';
+
+interface PendingReport {
+  fileName: string;
+  report: ParseReport;
+  rowCount: number;
+}
+
+interface PendingMapping {
+  fileName: string;
+  preview: FilePreview;
+}
 
 interface FileUploadProps {
-  onDataLoaded: (content: string) => void;
+  onFileSelected: (file: File, mode: ValidationMode) => void;
+  onCancel: () => void;
+  onConfirmReport: () => void;
+  onDiscardReport: () => void;
   isLoading: boolean;
+  progress: IngestProgress | null;
+  pendingReport: PendingReport | null;
+  pendingMapping: PendingMapping | null;
+  onConfirmMapping: (mapping: ColumnMapping) => void;
+  onDiscardMapping: () => void;
+  recentDatasets: CachedDatasetEntry[];
+  loadedDatasetKeys: string[];
+  onOpenRecent: (key: string) => void;
+  onEvictRecent: (key: string) => void;
+  onClearRecent: () => void;
+  onBack?: () => void; // set when adding a file to an already loaded dataset
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, isLoading }) => {
+// Tables in any supported input format, the HDX zip download and gzip archives are all read directly
+const ACCEPTED_EXTENSIONS = /\.(txt|tsv|csv|json|jsonl|ndjson|parquet|zip|gz)$/i;
+
+const formatMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+const FileUpload: React.FC<FileUploadProps> = ({
+  onFileSelected,
+  onCancel,
+  onConfirmReport,
+  onDiscardReport,
+  isLoading,
+  progress,
+  pendingReport,
+  pendingMapping,
+  onConfirmMapping,
+  onDiscardMapping,
+  recentDatasets,
+  loadedDatasetKeys,
+  onOpenRecent,
+  onEvictRecent,
+  onClearRecent,
+  onBack,
+}) => {
   const [error, setError] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [mode, setMode] = useState<ValidationMode>('lenient');
 
   const handleFile = (file: File) => {
     setError(null);
-    if (file.type !== 'text/plain' && !file.name.endsWith('.txt') && !file.name.endsWith('.tsv')) {
-      setError('Please upload a valid .txt or .tsv file.');
+    if (!ACCEPTED_EXTENSIONS.test(file.name) && file.type !== 'text/plain') {
+      setError('Please upload a .txt, .tsv, .csv, .json or .parquet file, or a .zip/.gz archive of one.');
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      if (content) {
-        onDataLoaded(content);
-      }
-    };
-    reader.onerror = () => {
-      setError('Error reading file.');
-    };
-    reader.readAsText(file);
+    // The file is streamed in chunks by the parser worker rather than read whole here
+    onFileSelected(file, mode);
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -55,11 +98,75 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, isLoading }) => {
     }
   };
 
+  // Files with non-standard headers are mapped onto the schema before they are parsed
+  if (pendingMapping) {
+    return (
+      <div className="max-w-3xl mx-auto mt-20 p-6">
+        <ColumnMappingPanel
+          fileName={pendingMapping.fileName}
+          preview={pendingMapping.preview}
+          onConfirm={onConfirmMapping}
+          onDiscard={onDiscardMapping}
+        />
+      </div>
+    );
+  }
+
+  // Show the validation outcome before the dashboard opens
+  if (pendingReport) {
+    return (
+      <div className="max-w-2xl mx-auto mt-20 p-6">
+        <ParseReportPanel
+          fileName={pendingReport.fileName}
+          report={pendingReport.report}
+          rowCount={pendingReport.rowCount}
+          onConfirm={onConfirmReport}
+          onDiscard={onDiscardReport}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-xl mx-auto mt-20 p-6">
+      {onBack && !isLoading && (
+        <button
+          onClick={onBack}
+          className="mb-6 flex items-center text-sm text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1.5" />
+          Back to dashboard
+        </button>
+      )}
       <div className="text-center mb-8">
         <h1 className="text-3xl font-bold text-slate-800 mb-2">Facebook Movement Data</h1>
-        <p className="text-slate-500">Upload your tab-delimited (.txt) movement range file to generate the dashboard.</p>
+        <p className="text-slate-500">
+          {onBack
+            ? 'Add another movement range file. Its rows are merged into the loaded dataset.'
+            : 'Upload your movement range file (TSV, CSV, JSON or Parquet) to generate the dashboard.'}
+        </p>
+      </div>
+
+      <div className="flex items-center justify-center gap-3 mb-4">
+        <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Validation</span>
+        <div className="flex bg-slate-100 rounded-lg p-1">
+          <button
+            onClick={() => setMode('lenient')}
+            disabled={isLoading}
+            className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${mode === 'lenient' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            title="Keep rows with missing or non-numeric metrics"
+          >
+            Lenient
+          </button>
+          <button
+            onClick={() => setMode('strict')}
+            disabled={isLoading}
+            className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${mode === 'strict' ? 'bg-white text-purple-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            title="Drop rows with flagged values and reject files with missing columns or duplicates"
+          >
+            Strict
+          </button>
+        </div>
       </div>
 
       <div
@@ -78,13 +185,40 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, isLoading }) => {
           id="file-upload"
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           onChange={handleChange}
-          accept=".txt,.tsv"
+          accept=".txt,.tsv,.csv,.json,.jsonl,.ndjson,.parquet,.zip,.gz"
           disabled={isLoading}
         />
 
         <div className="flex flex-col items-center justify-center space-y-4">
           {isLoading ? (
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            <div className="w-full space-y-3">
+              <div className="flex justify-between text-sm font-medium text-slate-700">
+                <span>Parsing file...</span>
+                <span>
+                  {progress && progress.totalBytes > 0
+                    ? `${Math.round((progress.bytesRead / progress.totalBytes) * 100)}%`
+                    : ''}
+                </span>
+              </div>
+              <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all duration-200"
+                  style={{ width: `${progress && progress.totalBytes > 0 ? (progress.bytesRead / progress.totalBytes) * 100 : 0}%` }}
+                ></div>
+              </div>
+              {progress && (
+                <p className="text-xs text-slate-400">
+                  {formatMegabytes(progress.bytesRead)} MB of {formatMegabytes(progress.totalBytes)} MB · {progress.rows.toLocaleString()} rows
+                </p>
+              )}
+              <button
+                onClick={onCancel}
+                className="relative z-10 inline-flex items-center text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 border border-slate-200 px-3 py-1.5 rounded-full transition-colors"
+              >
+                <XCircle className="w-3 h-3 mr-1.5" />
+                Cancel
+              </button>
+            </div>
           ) : (
             <>
               <div className="bg-blue-100 p-4 rounded-full">
@@ -95,7 +229,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, isLoading }) => {
                   Click to upload or drag and drop
                 </p>
                 <p className="text-sm text-slate-400 mt-1">
-                  Supported formats: .txt, .tsv (Max 500MB recommended)
+                  Supported formats: .txt, .tsv, .csv, .json, .parquet, .zip, .gz (Max 500MB recommended)
                 </p>
               </div>
             </>
@@ -110,6 +244,17 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, isLoading }) => {
         </div>
       )}
 
+      {/* Previously parsed files reopen from the browser cache without being read again */}
+      {recentDatasets.length > 0 && !isLoading && (
+        <RecentDatasetsPanel
+          entries={recentDatasets}
+          loadedKeys={loadedDatasetKeys}
+          onOpen={onOpenRecent}
+          onEvict={onEvictRecent}
+          onClear={onClearRecent}
+        />
+      )}
+
       <div className="mt-8 bg-slate-50 p-4 rounded-lg border border-slate-200">
         <div className="flex items-center mb-2">
           <FileText className="w-4 h-4 text-slate-500 mr-2" />
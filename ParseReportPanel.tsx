@@ -0,0 +1,182 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, ClipboardList, XCircle } from 'lucide-react';
+import { ParseReport, RowIssue } from '../types';
+import { canOpenReport, countReportIssues, METRIC_COLUMNS } from '../services/validationService';
+import { INPUT_FORMATS } from '../services/formatService';
+
+interface ParseReportPanelProps {
+  fileName: string;
+  report: ParseReport;
+  rowCount: number;
+  onConfirm: () => void;
+  onDiscard: () => void;
+}
+
+const PROBLEM_LABELS: Record<RowIssue['problem'], string> = {
+  missing: 'Missing value',
+  invalid_date: 'Unparseable date',
+  non_numeric: 'Not a number',
+};
+
+const ParseReportPanel: React.FC<ParseReportPanelProps> = ({ fileName, report, rowCount, onConfirm, onDiscard }) => {
+  const issues = countReportIssues(report);
+  const canOpen = canOpenReport(report, rowCount);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+        <div className="flex items-center gap-3 min-w-0">
+          <ClipboardList className="w-5 h-5 text-slate-500 shrink-0" />
+          <div className="min-w-0">
+            <h2 className="font-bold text-slate-800">Parse Report</h2>
+            <p className="text-xs text-slate-500 truncate">
+              {fileName}
+              {report.archiveEntry && <span className="text-slate-400"> → {report.archiveEntry}</span>}
+              {report.format && <span className="text-slate-400"> · {INPUT_FORMATS.find(f => f.id === report.format)?.label}</span>}
+            </p>
+          </div>
+        </div>
+        <span className={`text-xs font-semibold px-2 py-1 rounded uppercase tracking-wider ${
+          report.mode === 'strict' ? 'bg-purple-50 text-purple-700' : 'bg-blue-50 text-blue-700'
+        }`}>
+          {report.mode}
+        </span>
+      </div>
+
+      <div className="p-6 space-y-5">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="bg-slate-50 rounded-lg p-3">
+            <p className="text-xs text-slate-500">Rows read</p>
+            <p className="text-lg font-bold text-slate-800">{report.totalRows.toLocaleString()}</p>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-3">
+            <p className="text-xs text-slate-500">Accepted</p>
+            <p className="text-lg font-bold text-green-600">{report.acceptedRows.toLocaleString()}</p>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-3">
+            <p className="text-xs text-slate-500">Dropped</p>
+            <p className={`text-lg font-bold ${report.droppedRows > 0 ? 'text-red-600' : 'text-slate-800'}`}>{report.droppedRows.toLocaleString()}</p>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-3">
+            <p className="text-xs text-slate-500">Duplicate (ds, polygon_id)</p>
+            <p className={`text-lg font-bold ${report.duplicateRows > 0 ? 'text-orange-600' : 'text-slate-800'}`}>{report.duplicateRows.toLocaleString()}</p>
+          </div>
+        </div>
+
+        {report.missingColumns.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-start">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+            <span>
+              Missing required columns: <span className="font-mono">{report.missingColumns.join(', ')}</span>
+            </span>
+          </div>
+        )}
+
+        {report.columnMapping && (
+          <p className="text-xs text-slate-500">
+            Mapped columns:{' '}
+            <span className="font-mono">
+              {Object.entries(report.columnMapping)
+                .filter(([field, source]) => source && source !== field)
+                .map(([field, source]) => `${source} → ${field}`)
+                .join(', ') || 'none renamed'}
+            </span>
+          </p>
+        )}
+
+        {report.unexpectedColumns.length > 0 && (
+          <p className="text-xs text-slate-500">
+            Ignored columns: <span className="font-mono">{report.unexpectedColumns.join(', ')}</span>
+          </p>
+        )}
+
+        <table className="w-full text-sm text-left text-slate-600">
+          <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+            <tr>
+              <th className="px-3 py-2">Check</th>
+              <th className="px-3 py-2 text-right">Rows</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            <tr>
+              <td className="px-3 py-2">Unparseable <span className="font-mono text-xs">ds</span></td>
+              <td className="px-3 py-2 text-right">{report.invalidDates.toLocaleString()}</td>
+            </tr>
+            {METRIC_COLUMNS.map(c => (
+              <React.Fragment key={c}>
+                <tr>
+                  <td className="px-3 py-2">Missing <span className="font-mono text-xs">{c}</span></td>
+                  <td className="px-3 py-2 text-right">{report.missingMetrics[c].toLocaleString()}</td>
+                </tr>
+                <tr>
+                  <td className="px-3 py-2">Non-numeric <span className="font-mono text-xs">{c}</span></td>
+                  <td className="px-3 py-2 text-right">{report.nonNumericMetrics[c].toLocaleString()}</td>
+                </tr>
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+
+        {report.samples.length > 0 && (
+          <details className="text-xs">
+            <summary className="cursor-pointer text-slate-500 font-medium">First {report.samples.length} flagged values</summary>
+            <div className="mt-2 max-h-48 overflow-y-auto border border-slate-100 rounded">
+              <table className="w-full text-left text-slate-600">
+                <tbody className="divide-y divide-slate-100">
+                  {report.samples.map((s, i) => (
+                    <tr key={i}>
+                      <td className="px-2 py-1 text-slate-400">line {s.line}</td>
+                      <td className="px-2 py-1 font-mono">{s.field}</td>
+                      <td className="px-2 py-1 font-mono">{s.value || '∅'}</td>
+                      <td className="px-2 py-1">{PROBLEM_LABELS[s.problem]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </details>
+        )}
+
+        {issues === 0 ? (
+          <div className="flex items-center text-sm text-green-700">
+            <CheckCircle className="w-4 h-4 mr-2" />
+            The file matches the Movement Range schema.
+          </div>
+        ) : canOpen ? (
+          <div className="flex items-start text-sm text-orange-700">
+            <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+            {report.mode === 'lenient'
+              ? 'Flagged metric values are kept as gaps and rows without a valid date were dropped.'
+              : 'Rows with flagged values were dropped.'}
+          </div>
+        ) : (
+          <div className="flex items-start text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+            {rowCount === 0
+              ? 'No usable rows were found in this file.'
+              : 'Strict mode rejects files with missing columns or duplicate rows.'}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            onClick={onDiscard}
+            className="flex items-center px-4 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-600 border border-slate-200 hover:bg-slate-200 transition-all"
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            Choose Another File
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={!canOpen}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all"
+          >
+            Open Dashboard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParseReportPanel;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ArrowDownToLine, ChartArea, Hourglass, TrendingUp } from 'lucide-react';
+import { PhaseMetrics, RECOVERY_BAND } from '../services/phaseMetricsService';
+
+export interface PhaseMetricsItem {
+  id: string;
+  label: string;
+  color: string;
+  metrics: PhaseMetrics | null;
+}
+
+interface PhaseMetricsCardsProps {
+  items: PhaseMetricsItem[]; // the drawn series, primary first
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const PhaseCard: React.FC<{
+  title: string;
+  icon: React.ReactNode;
+  items: PhaseMetricsItem[];
+  render: (metrics: PhaseMetrics) => { value: string; detail?: string; tone?: string };
+}> = ({ title, icon, items, render }) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+    <p className="text-sm text-slate-500 font-medium mb-1">{title}</p>
+    <div className="flex flex-col gap-1">
+      {items.map((item, i) => {
+        const shown = item.metrics ? render(item.metrics) : { value: '—' };
+        return (
+          <div key={item.id} className={`flex items-center ${i > 0 ? 'pt-2 border-t border-slate-100' : ''}`}>
+            {i === 0 ? icon : <span className="w-5 mr-2"></span>}
+            <div className="min-w-0">
+              <span className={`font-bold ${i === 0 ? 'text-2xl' : 'text-xl'} ${shown.tone ?? (i === 0 ? 'text-slate-800' : 'text-slate-600')}`}>
+                {shown.value}
+              </span>
+              {shown.detail && <span className="ml-2 text-xs text-slate-400">{shown.detail}</span>}
+              {items.length > 1 && (
+                <span className="flex items-center text-xs font-semibold text-slate-500 truncate">
+                  <span className="w-2 h-2 rounded-full mr-1.5 shrink-0" style={{ backgroundColor: item.color }}></span>
+                  {item.label}
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+// How deep and how fast each series' mobility fell, and when it came back within the recovery band
+const PhaseMetricsCards: React.FC<PhaseMetricsCardsProps> = ({ items }) => {
+  if (items.length === 0) return null;
+  const band = `${(RECOVERY_BAND * 100).toFixed(0)}%`;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <PhaseCard
+        title="Mobility Trough"
+        icon={<ArrowDownToLine className="w-5 h-5 text-red-500 mr-2" />}
+        items={items}
+        render={m => ({ value: formatPercent(m.depth), detail: m.troughDate, tone: m.depth < 0 ? 'text-red-600' : 'text-green-600' })}
+      />
+      <PhaseCard
+        title="Days to Trough"
+        icon={<Hourglass className="w-5 h-5 text-amber-500 mr-2" />}
+        items={items}
+        render={m => (m.daysToTrough === null
+          ? { value: '—', detail: m.depth >= -RECOVERY_BAND ? `stayed within ${band}` : 'fell before the range' }
+          : { value: `${m.daysToTrough} days`, detail: `from ${m.onsetDate}` })}
+      />
+      <PhaseCard
+        title={`Back Within ${band} of Baseline`}
+        icon={<TrendingUp className="w-5 h-5 text-green-500 mr-2" />}
+        items={items}
+        render={m => (m.depth >= -RECOVERY_BAND
+          ? { value: '—', detail: 'no drop' }
+          : m.recoveryDate === null
+            ? { value: 'Not yet', tone: 'text-orange-600' }
+            : { value: m.recoveryDate, detail: `${m.daysToRecovery} days after the trough` })}
+      />
+      <PhaseCard
+        title="Area Under Baseline"
+        icon={<ChartArea className="w-5 h-5 text-blue-500 mr-2" />}
+        items={items}
+        render={m => ({ value: `${m.areaUnderBaseline.toFixed(1)} days`, detail: 'of movement lost' })}
+      />
+    </div>
+  );
+};
+
+export default PhaseMetricsCards;
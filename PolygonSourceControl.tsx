@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import { Layers, Upload, X } from 'lucide-react';
+import { MovementDataset, ParentMapping } from '../types';
+import { getMixedSourceCountries, parseParentMapping, resolveCountrySource } from '../services/adminLevelService';
+
+interface PolygonSourceControlProps {
+  data: MovementDataset; // every polygon source, before any is picked
+  sourceByCountry: Record<string, string>;
+  onSourceChange: (country: string, source: string) => void;
+  parentMapping: ParentMapping | null;
+  onParentMappingChange: (mapping: ParentMapping | null) => void;
+}
+
+// Shown only when some country mixes polygon sources; each such country is analysed at one source at a time
+const PolygonSourceControl: React.FC<PolygonSourceControlProps> = ({
+  data,
+  sourceByCountry,
+  onSourceChange,
+  parentMapping,
+  onParentMappingChange,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const mixed = useMemo(() => getMixedSourceCountries(data), [data]);
+  if (mixed.length === 0) return null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      onParentMappingChange(await parseParentMapping(file, data));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the parent table.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 px-4 py-3">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-sm">
+          <Layers className="w-5 h-5 text-slate-500" />
+          <span className="text-slate-700">
+            {mixed.length === 1 ? 'One country mixes' : `${mixed.length} countries mix`} <span className="font-semibold">polygon sources</span>
+            <span className="text-slate-400"> · averages use one source per country</span>
+            {parentMapping && (
+              <span className="text-slate-400">
+                {' '}· {parentMapping.matched.toLocaleString()} parent links from {parentMapping.name}
+                {parentMapping.ambiguous > 0 && `, ${parentMapping.ambiguous.toLocaleString()} ids skipped as ambiguous across sources`}
+              </span>
+            )}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 cursor-pointer transition-all">
+            <Upload className="w-4 h-4 mr-1.5" />
+            {parentMapping ? 'Replace Parents' : 'Load Parents'}
+            <input type="file" accept=".csv,.tsv,.txt,.json,.parquet" className="hidden" onChange={handleFile} />
+          </label>
+          {parentMapping && (
+            <button
+              onClick={() => onParentMappingChange(null)}
+              className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-100 transition-all"
+            >
+              <X className="w-4 h-4 mr-1" />
+              No Drill-down
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-2 ml-8 flex flex-wrap gap-2">
+        {mixed.map(({ country, sources }) => (
+          <label key={country} className="flex items-center gap-1.5 text-xs text-slate-500">
+            {country}
+            <select
+              className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-1.5"
+              value={resolveCountrySource(data, country, sourceByCountry[country])}
+              onChange={(e) => onSourceChange(country, e.target.value)}
+            >
+              {sources.map(s => (
+                <option key={s.source} value={s.source}>{s.source || 'Unknown'} ({s.polygons})</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {!parentMapping && !error && (
+        <p className="mt-2 ml-8 text-xs text-slate-400">
+          Load a table of <span className="font-mono">polygon_id</span> and <span className="font-mono">parent_id</span> to expand regions into their children in the matrix.
+          Add <span className="font-mono">polygon_source</span> and <span className="font-mono">parent_source</span> columns when an id is used by more than one source.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PolygonSourceControl;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Scale, Upload, X } from 'lucide-react';
+import { MovementDataset, PopulationTable } from '../types';
+import { parsePopulationTable } from '../services/populationService';
+
+interface PopulationWeightsControlProps {
+  data: MovementDataset;
+  population: PopulationTable | null;
+  onChange: (population: PopulationTable | null) => void;
+}
+
+const PopulationWeightsControl: React.FC<PopulationWeightsControlProps> = ({ data, population, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const polygonIds = new Set(data.polygons.map(p => p.polygon_id));
+      onChange(await parsePopulationTable(file, polygonIds));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the population table.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 px-4 py-3">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-sm">
+          <Scale className="w-5 h-5 text-slate-500" />
+          {population ? (
+            <span className="text-slate-700">
+              Country averages are <span className="font-semibold">population-weighted</span>
+              <span className="text-slate-400"> · {population.name} · {population.matched.toLocaleString()} of {data.polygons.length.toLocaleString()} polygons</span>
+            </span>
+          ) : (
+            <span className="text-slate-700">
+              Country averages are an <span className="font-semibold">unweighted mean</span> across regions
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 cursor-pointer transition-all">
+            <Upload className="w-4 h-4 mr-1.5" />
+            {population ? 'Replace Populations' : 'Load Populations'}
+            <input type="file" accept=".csv,.tsv,.txt,.json,.parquet" className="hidden" onChange={handleFile} />
+          </label>
+          {population && (
+            <button
+              onClick={() => onChange(null)}
+              className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-100 transition-all"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Unweighted
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {!population && !error && (
+        <p className="mt-1 ml-8 text-xs text-slate-400">
+          Load a table of <span className="font-mono">polygon_id</span> and <span className="font-mono">population</span> to weight each region by its population.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PopulationWeightsControl;
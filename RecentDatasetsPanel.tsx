@@ -0,0 +1,72 @@
+import React from 'react';
+import { Clock, FolderOpen, Trash2 } from 'lucide-react';
+import { CachedDatasetEntry } from '../types';
+
+interface RecentDatasetsPanelProps {
+  entries: CachedDatasetEntry[];
+  loadedKeys: string[];
+  onOpen: (key: string) => void;
+  onEvict: (key: string) => void;
+  onClear: () => void;
+}
+
+const formatMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+const RecentDatasetsPanel: React.FC<RecentDatasetsPanelProps> = ({ entries, loadedKeys, onOpen, onEvict, onClear }) => {
+  const totalBytes = entries.reduce((sum, e) => sum + e.byteSize, 0);
+
+  return (
+    <div className="mt-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-slate-500" />
+          <span className="text-sm font-semibold text-slate-700">Recent Datasets</span>
+          <span className="text-xs text-slate-400">{formatMegabytes(totalBytes)} MB cached</span>
+        </div>
+        <button
+          onClick={onClear}
+          className="text-xs font-medium text-slate-500 hover:text-red-600 transition-colors"
+        >
+          Clear all
+        </button>
+      </div>
+
+      <ul className="divide-y divide-slate-100">
+        {entries.map(entry => {
+          const loaded = loadedKeys.includes(entry.key);
+          return (
+            <li key={entry.key} className="px-4 py-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-800 truncate">{entry.fileName}</p>
+                <p className="text-xs text-slate-400">
+                  {entry.rowCount.toLocaleString()} rows
+                  {entry.dateSpan && ` · ${entry.dateSpan.start} — ${entry.dateSpan.end}`}
+                  {` · ${entry.mode} · ${formatMegabytes(entry.byteSize)} MB`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <button
+                  onClick={() => onOpen(entry.key)}
+                  disabled={loaded}
+                  className="flex items-center px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-500 disabled:cursor-not-allowed transition-all"
+                >
+                  <FolderOpen className="w-3.5 h-3.5 mr-1.5" />
+                  {loaded ? 'Loaded' : 'Open'}
+                </button>
+                <button
+                  onClick={() => onEvict(entry.key)}
+                  className="text-slate-400 hover:text-red-600 transition-colors"
+                  title="Remove this dataset from the browser cache"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default RecentDatasetsPanel;
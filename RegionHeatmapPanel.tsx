@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Grid3x3 } from 'lucide-react';
+import { DateRange, MovementDataset, MovementMetric, RegionStats, SortConfig } from '../types';
+import { getRegionCurves, RegionCurves } from '../services/similarityService';
+import { METRIC_GRADIENTS, metricRgb } from '../services/colorScaleService';
+
+interface RegionHeatmapPanelProps {
+  data: MovementDataset;
+  country: string;
+  range: DateRange | null;
+  mobilityCurves: RegionCurves; // built once by the dashboard for the matrix's phase metrics
+  regions: RegionStats[]; // the matrix rows, already in sort order
+  sortConfig: SortConfig | null;
+  onSortChange: (sortConfig: SortConfig | null) => void;
+  onSelectRegion: (regionKey: string) => void;
+}
+
+const SORT_OPTIONS: { key: keyof RegionStats; label: string }[] = [
+  { key: 'name', label: 'Region' },
+  { key: 'avgMobility', label: 'Avg Mobility' },
+  { key: 'minMobility', label: 'Min Mobility' },
+  { key: 'avgStay', label: 'Avg Stay Home' },
+  { key: 'maxStay', label: 'Max Stay Home' },
+  { key: 'coverage', label: 'Coverage' },
+  { key: 'dataPoints', label: 'Data Points' },
+  { key: 'troughDate', label: 'Trough' },
+  { key: 'depth', label: 'Depth' },
+  { key: 'daysToTrough', label: 'Days to Trough' },
+  { key: 'recoveryDate', label: 'Recovered' },
+  { key: 'areaUnderBaseline', label: 'Area Under Baseline' },
+];
+
+const LABEL_WIDTH = 160;
+// Rows shrink as regions are added so the canvas stays within what browsers will draw
+const MAX_ROW_HEIGHT = 16;
+const MIN_ROW_HEIGHT = 2;
+const MAX_CANVAS_HEIGHT = 12000;
+// Safari refuses canvases over about 16.7M pixels, so the backing store gives up device pixels to stay under it
+const MAX_CANVAS_AREA = 16 * 1000 * 1000;
+// Names are only written when a row is tall enough to read them
+const MIN_LABELLED_ROW = 10;
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+// Regions as rows and days as columns on a canvas, so countries with thousands of regions stay responsive.
+// Each cell is one pixel of an offscreen image that is stretched to the plot without smoothing.
+const RegionHeatmapPanel: React.FC<RegionHeatmapPanelProps> = ({
+  data,
+  country,
+  range,
+  mobilityCurves,
+  regions,
+  sortConfig,
+  onSortChange,
+  onSelectRegion,
+}) => {
+  const [metric, setMetric] = useState<MovementMetric>('mobility');
+  const [width, setWidth] = useState(0);
+  const [hovered, setHovered] = useState<{ row: number; col: number; x: number; y: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Stay-home curves are only read when that metric is shown
+  const curves = useMemo(
+    () => (metric === 'mobility' ? mobilityCurves : getRegionCurves(data, country, metric, range)),
+    [metric, mobilityCurves, data, country, range]
+  );
+  const rows = useMemo(() => {
+    const indexOf = new Map(curves.regions.map((r, i) => [r.key, i]));
+    return regions
+      .filter(r => indexOf.has(r.key))
+      .map(r => ({ key: r.key, name: r.name, values: curves.values[indexOf.get(r.key)!] }));
+  }, [curves, regions]);
+
+  // A symmetric scale for mobility so 0 is always the neutral colour
+  const extent = useMemo(() => {
+    let max = 0;
+    rows.forEach(r => r.values.forEach(v => { if (v !== null) max = Math.max(max, Math.abs(v)); }));
+    return max;
+  }, [rows]);
+
+  const dates = curves.dates;
+  const rowHeight = Math.max(MIN_ROW_HEIGHT, Math.min(MAX_ROW_HEIGHT, Math.floor(MAX_CANVAS_HEIGHT / Math.max(1, rows.length))));
+  const plotWidth = Math.max(0, width - LABEL_WIDTH);
+  const cellWidth = dates.length > 0 ? plotWidth / dates.length : 0;
+
+  // The plot is only mounted while there is something to draw, so it is observed again when it appears
+  const isEmpty = rows.length === 0 || dates.length === 0;
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [isEmpty]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const height = rows.length * rowHeight;
+    const ratio = Math.min(window.devicePixelRatio || 1, Math.sqrt(MAX_CANVAS_AREA / Math.max(1, width * height)));
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    if (isEmpty) return;
+
+    const cells = new ImageData(dates.length, rows.length);
+    rows.forEach((r, y) => {
+      r.values.forEach((v, x) => {
+        const [red, green, blue] = metricRgb(v, metric, extent);
+        const offset = (y * dates.length + x) * 4;
+        cells.data[offset] = red;
+        cells.data[offset + 1] = green;
+        cells.data[offset + 2] = blue;
+        cells.data[offset + 3] = 255;
+      });
+    });
+    const bitmap = document.createElement('canvas');
+    bitmap.width = dates.length;
+    bitmap.height = rows.length;
+    bitmap.getContext('2d')?.putImageData(cells, 0, 0);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(bitmap, LABEL_WIDTH, 0, plotWidth, height);
+
+    if (rowHeight >= MIN_LABELLED_ROW) {
+      ctx.font = '11px ui-sans-serif, system-ui, sans-serif';
+      ctx.fillStyle = '#475569';
+      ctx.textBaseline = 'middle';
+      rows.forEach((r, y) => ctx.fillText(r.name, 4, y * rowHeight + rowHeight / 2, LABEL_WIDTH - 12));
+    }
+  }, [rows, dates, metric, extent, width, plotWidth, rowHeight, isEmpty]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - box.left;
+    const y = e.clientY - box.top;
+    const row = Math.floor(y / rowHeight);
+    if (row < 0 || row >= rows.length) return setHovered(null);
+    const col = x < LABEL_WIDTH || cellWidth === 0 ? -1 : Math.min(dates.length - 1, Math.floor((x - LABEL_WIDTH) / cellWidth));
+    setHovered({ row, col, x, y });
+  };
+
+  const hoveredRow = hovered ? rows[hovered.row] : undefined;
+  const sortOption = SORT_OPTIONS.find(o => o.key === sortConfig?.key);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row justify-between items-center gap-4">
+        <div className="flex items-center gap-4">
+          <Grid3x3 className="w-5 h-5 text-slate-500" />
+          <h3 className="font-bold text-slate-800">Regions Over Time · {country}</h3>
+          <span className="text-xs text-slate-400 bg-white px-2 py-1 border rounded">
+            {rows.length} regions × {dates.length} days
+          </span>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            <select
+              className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+              value={sortOption?.key ?? ''}
+              onChange={(e) => onSortChange(e.target.value
+                ? { key: e.target.value as keyof RegionStats, direction: sortConfig?.direction ?? 'asc' }
+                : null)}
+              title="Sort regions"
+            >
+              <option value="">Unsorted</option>
+              {SORT_OPTIONS.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+            </select>
+            {sortConfig && (
+              <button
+                onClick={() => onSortChange({ ...sortConfig, direction: sortConfig.direction === 'asc' ? 'desc' : 'asc' })}
+                className="p-1.5 rounded-lg text-slate-500 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+                title={sortConfig.direction === 'asc' ? 'Ascending' : 'Descending'}
+              >
+                {sortConfig.direction === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+              </button>
+            )}
+          </div>
+          <div className="flex bg-slate-100 rounded-lg p-1">
+            <button
+              onClick={() => setMetric('mobility')}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${metric === 'mobility' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Mobility
+            </button>
+            <button
+              onClick={() => setMetric('stay')}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${metric === 'stay' ? 'bg-white text-purple-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Stay Home
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {isEmpty ? (
+          <p className="text-sm text-slate-500 text-center py-6">No regional data in this range.</p>
+        ) : (
+          <>
+            <div ref={containerRef} className="max-h-[500px] overflow-y-auto">
+              <div className="relative" onMouseLeave={() => setHovered(null)}>
+                <canvas
+                  ref={canvasRef}
+                  onMouseMove={handleMouseMove}
+                  onClick={() => hoveredRow && onSelectRegion(hoveredRow.key)}
+                  className="block cursor-pointer"
+                />
+                {hovered && hoveredRow && (
+                  <>
+                    <div
+                      className="absolute pointer-events-none border border-slate-900"
+                      style={{ left: LABEL_WIDTH, top: hovered.row * rowHeight, width: plotWidth, height: rowHeight }}
+                    ></div>
+                    <div
+                      className="absolute pointer-events-none bg-white border border-slate-200 shadow-lg rounded-lg px-3 py-2 text-xs z-10"
+                      style={{ left: Math.min(hovered.x + 12, Math.max(0, width - 200)), top: hovered.y + 12 }}
+                    >
+                      <p className="font-semibold text-slate-800">{hoveredRow.name}</p>
+                      {hovered.col >= 0 && (
+                        <p className="text-slate-500">
+                          {dates[hovered.col]} · {metric === 'mobility' ? 'Mobility change' : 'Stay at home'}: {formatPercent(hoveredRow.values[hovered.col])}
+                        </p>
+                      )}
+                      <p className="text-slate-400">Click to open in Region Analysis</p>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-between text-xs text-slate-400 mt-2" style={{ paddingLeft: LABEL_WIDTH }}>
+              <span>{dates[0]}</span>
+              {dates.length > 2 && <span>{dates[Math.floor(dates.length / 2)]}</span>}
+              <span>{dates[dates.length - 1]}</span>
+            </div>
+
+            <div className="flex items-center gap-2 mt-3 text-xs text-slate-400">
+              <span>{metric === 'mobility' ? formatPercent(-extent) : '0%'}</span>
+              <div className="w-40 h-2 rounded" style={{ background: METRIC_GRADIENTS[metric] }}></div>
+              <span>{formatPercent(extent)}</span>
+              {rowHeight < MIN_LABELLED_ROW && <span className="ml-4">Hover a row to see its region</span>}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RegionHeatmapPanel;
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Map as MapIcon, Upload } from 'lucide-react';
+import { MovementDataset, MovementMetric } from '../types';
+import { getPolygonValuesOnDate } from '../services/aggregationService';
+import { getCountryPolygons } from '../services/movementDataset';
+import { resolveCountrySource } from '../services/adminLevelService';
+import { BoundaryLayer, getFeatureKey, parseBoundaries, projectFeatures } from '../services/geoService';
+import { METRIC_GRADIENTS, metricColor } from '../services/colorScaleService';
+import type { Feature } from 'geojson';
+
+interface RegionMapPanelProps {
+  data: MovementDataset;
+  country: string;
+  source?: string; // the polygon source picked for the country, if it mixes sources
+  dates: string[]; // days with data for the country, ascending
+  boundaries: BoundaryLayer | null;
+  onBoundariesChange: (boundaries: BoundaryLayer | null) => void;
+  onSelectRegion: (regionKey: string) => void;
+}
+
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 480;
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+const RegionMapPanel: React.FC<RegionMapPanelProps> = ({
+  data,
+  country,
+  source,
+  dates,
+  boundaries,
+  onBoundariesChange,
+  onSelectRegion,
+}) => {
+  const [metric, setMetric] = useState<MovementMetric>('mobility');
+  const [dateIndex, setDateIndex] = useState(dates.length - 1);
+  const [hovered, setHovered] = useState<{ index: number; x: number; y: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Show the latest day again whenever the country (and so its date list) changes
+  useEffect(() => {
+    setDateIndex(dates.length - 1);
+  }, [dates]);
+
+  const ds = dates[Math.min(Math.max(dateIndex, 0), dates.length - 1)] ?? '';
+
+  const values = useMemo(() => getPolygonValuesOnDate(data, country, ds, metric), [data, country, ds, metric]);
+
+  // Boundaries carry a bare polygon_id, so each is joined to the region holding that id. An id found
+  // under several sources resolves to the source the country is analysed at.
+  const activeSource = useMemo(() => resolveCountrySource(data, country, source), [data, country, source]);
+  const regionKeyById = useMemo(() => {
+    const keys = new Map<string, string>();
+    values.forEach((v, key) => {
+      if (!keys.has(v.polygon_id) || v.polygon_source === activeSource) keys.set(v.polygon_id, key);
+    });
+    return keys;
+  }, [values, activeSource]);
+  const valueOf = (f: Feature) => {
+    const key = boundaries ? regionKeyById.get(getFeatureKey(f, boundaries.joinKey)) : undefined;
+    return key === undefined ? undefined : values.get(key);
+  };
+
+  // Only the selected country's boundaries are drawn, so the projection zooms to it
+  const features = useMemo(
+    () => (boundaries ? boundaries.features.filter(f => regionKeyById.has(getFeatureKey(f, boundaries.joinKey))) : []),
+    [boundaries, regionKeyById]
+  );
+  const paths = useMemo(() => projectFeatures(features, MAP_WIDTH, MAP_HEIGHT), [features]);
+
+  // A symmetric scale for mobility so 0 is always the neutral colour
+  const extent = useMemo(() => {
+    let max = 0;
+    values.forEach(v => { if (v.value !== null) max = Math.max(max, Math.abs(v.value)); });
+    return max;
+  }, [values]);
+
+  const handleBoundaryFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const polygonIds = new Set(data.polygons.map(p => p.polygon_id));
+      onBoundariesChange(await parseBoundaries(file, polygonIds));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the boundary file.');
+    }
+  };
+
+  const hoveredValue = hovered ? valueOf(features[hovered.index]) : undefined;
+  const missingBoundaries = getCountryPolygons(data, country).length - features.length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row justify-between items-center gap-4">
+        <div className="flex items-center gap-4">
+          <MapIcon className="w-5 h-5 text-slate-500" />
+          <h3 className="font-bold text-slate-800">Regional Map</h3>
+          {boundaries && (
+            <span className="text-xs text-slate-400 bg-white px-2 py-1 border rounded" title={`Joined on ${boundaries.joinKey}`}>
+              {boundaries.name}
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          {boundaries && (
+            <div className="flex bg-slate-100 rounded-lg p-1">
+              <button
+                onClick={() => setMetric('mobility')}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${metric === 'mobility' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                Mobility
+              </button>
+              <button
+                onClick={() => setMetric('stay')}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${metric === 'stay' ? 'bg-white text-purple-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                Stay Home
+              </button>
+            </div>
+          )}
+          <label className="flex items-center px-3 py-2 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 cursor-pointer transition-all">
+            <Upload className="w-4 h-4 mr-1.5" />
+            {boundaries ? 'Replace Boundaries' : 'Load Boundaries'}
+            <input type="file" accept=".json,.geojson,.topojson" className="hidden" onChange={handleBoundaryFile} />
+          </label>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        {!boundaries ? (
+          <p className="text-sm text-slate-500 text-center py-10">
+            Load GADM level 1 or 2 boundaries (GeoJSON or TopoJSON) to colour each region by its value on a chosen day.
+            Regions are matched to the data on <span className="font-mono">polygon_id</span>.
+          </p>
+        ) : features.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-10">
+            None of the loaded boundaries match a region in {country}.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center gap-4 mb-4">
+              <input
+                type="range"
+                min={0}
+                max={dates.length - 1}
+                value={Math.min(dateIndex, dates.length - 1)}
+                onChange={(e) => setDateIndex(Number(e.target.value))}
+                className="flex-1 accent-blue-600"
+              />
+              <span className="text-sm font-medium text-slate-700 w-24 text-right">{ds}</span>
+            </div>
+
+            <div className="relative" onMouseLeave={() => setHovered(null)}>
+              <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="w-full h-auto">
+                {features.map((f, i) => {
+                  const v = valueOf(f);
+                  return (
+                    <path
+                      key={i}
+                      d={paths[i]}
+                      fill={metricColor(v?.value ?? null, metric, extent)}
+                      stroke={hovered?.index === i ? '#0f172a' : '#ffffff'}
+                      strokeWidth={hovered?.index === i ? 1.5 : 0.5}
+                      className="cursor-pointer"
+                      onMouseMove={(e) => {
+                        const box = e.currentTarget.ownerSVGElement!.getBoundingClientRect();
+                        setHovered({ index: i, x: e.clientX - box.left, y: e.clientY - box.top });
+                      }}
+                      onClick={() => v && onSelectRegion(v.key)}
+                    />
+                  );
+                })}
+              </svg>
+
+              {hovered && hoveredValue && (
+                <div
+                  className="absolute pointer-events-none bg-white border border-slate-200 shadow-lg rounded-lg px-3 py-2 text-xs"
+                  style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+                >
+                  <p className="font-semibold text-slate-800">{hoveredValue.polygon_name}</p>
+                  <p className="text-slate-500">
+                    {metric === 'mobility' ? 'Mobility change' : 'Stay at home'}: {formatPercent(hoveredValue.value)}
+                  </p>
+                  <p className="text-slate-400">Click to open in Region Analysis</p>
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-between items-center mt-3 text-xs text-slate-400">
+              <div className="flex items-center gap-2">
+                <span>{metric === 'mobility' ? formatPercent(-extent) : '0%'}</span>
+                <div
+                  className="w-40 h-2 rounded"
+                  style={{ background: METRIC_GRADIENTS[metric] }}
+                ></div>
+                <span>{formatPercent(extent)}</span>
+              </div>
+              {missingBoundaries > 0 && <span>{missingBoundaries} regions have no boundary</span>}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RegionMapPanel;
@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { TrendingDown } from 'lucide-react';
+import { DateRange, MovementDataset, MovementMetric, RegionEntry } from '../types';
+import { DEFAULT_DETECTION, rankRegionShifts } from '../services/anomalyService';
+
+interface RegionShiftsPanelProps {
+  data: MovementDataset;
+  country: string;
+  regions: RegionEntry[];
+  range: DateRange | null;
+  onSelectRegion: (regionKey: string) => void;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Every region of a country ranked by its largest change point, found on the daily values
+const RegionShiftsPanel: React.FC<RegionShiftsPanelProps> = ({ data, country, regions, range, onSelectRegion }) => {
+  const [metric, setMetric] = useState<MovementMetric>('mobility');
+  const shifts = useMemo(
+    () => rankRegionShifts(data, country, regions, metric, range),
+    [data, country, regions, metric, range]
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row justify-between items-center gap-4">
+        <div className="flex items-center gap-4">
+          <TrendingDown className="w-5 h-5 text-slate-500" />
+          <h3 className="font-bold text-slate-800">Biggest Shifts · {country}</h3>
+          <span className="text-xs text-slate-400 bg-white px-2 py-1 border rounded">
+            {shifts.length} of {regions.length} regions shifted
+          </span>
+        </div>
+
+        <div className="flex bg-slate-100 rounded-lg p-1">
+          <button
+            onClick={() => setMetric('mobility')}
+            className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${metric === 'mobility' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            Mobility
+          </button>
+          <button
+            onClick={() => setMetric('stay')}
+            className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${metric === 'stay' ? 'bg-white text-purple-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            Stay Home
+          </button>
+        </div>
+      </div>
+
+      {shifts.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-6">
+          No region's {DEFAULT_DETECTION.window}-day average moved by more than {DEFAULT_DETECTION.threshold} standard deviations in this range.
+        </p>
+      ) : (
+        <div className="max-h-[400px] overflow-y-auto">
+          <table className="w-full text-sm text-left text-slate-600">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-6 py-3">#</th>
+                <th className="px-6 py-3">Region</th>
+                <th className="px-6 py-3">Date</th>
+                <th className="px-6 py-3 text-right">{DEFAULT_DETECTION.window} Days Before</th>
+                <th className="px-6 py-3 text-right">{DEFAULT_DETECTION.window} Days After</th>
+                <th className="px-6 py-3 text-right">Shift</th>
+                <th className="px-6 py-3 text-right">Outlier Days</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {shifts.map((s, rank) => (
+                <tr
+                  key={s.region.key}
+                  onClick={() => onSelectRegion(s.region.key)}
+                  className="hover:bg-slate-50 transition-colors cursor-pointer"
+                  title={`Open ${s.region.name} as the primary series`}
+                >
+                  <td className="px-6 py-3 text-xs text-slate-400">{rank + 1}</td>
+                  <td className="px-6 py-3 font-medium text-slate-900">{s.region.name}</td>
+                  <td className="px-6 py-3 text-xs whitespace-nowrap">{s.ds}</td>
+                  <td className="px-6 py-3 text-right">{formatPercent(s.before)}</td>
+                  <td className="px-6 py-3 text-right">{formatPercent(s.after)}</td>
+                  <td className={`px-6 py-3 text-right font-semibold ${s.shift < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {s.shift > 0 ? '+' : ''}{(s.shift * 100).toFixed(1)} pts
+                  </td>
+                  <td className="px-6 py-3 text-right text-xs">{s.outliers}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegionShiftsPanel;
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { GitCompare, RefreshCw, Shapes, X } from 'lucide-react';
+import { DateRange, MovementDataset, MovementMetric, RegionEntry } from '../types';
+import { clusterRegions, findSimilarRegions, getRegionCurves, RegionCluster, RegionCurves } from '../services/similarityService';
+import { seriesColor } from '../services/seriesService';
+
+interface RegionSimilarityPanelProps {
+  data: MovementDataset;
+  country: string;
+  range: DateRange | null;
+  mobilityCurves: RegionCurves; // built once by the dashboard, shared with the matrix and heatmap
+  target: string | null; // key of the region to find matches for, picked from the matrix
+  onTargetChange: (regionKey: string | null) => void;
+  onCompare: (regionKeys: string[]) => void;
+}
+
+const CLUSTER_COUNTS = [2, 3, 4, 5, 6];
+// Regions drawn against the target; the comparison view takes one more
+const SIMILAR_CHARTED = 3;
+const SIMILAR_COMPARED = 4;
+
+// Curves and group count the groups were last computed for
+interface ClusterRun {
+  curves: RegionCurves;
+  clusterCount: number;
+  clusters: RegionCluster[];
+  unclustered: RegionEntry[];
+}
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+// One row per date with a column per curve, as the charts expect
+const curveRows = (dates: string[], curves: (number | null)[][]) =>
+  dates.map((ds, d) => Object.fromEntries([['ds', ds], ...curves.map((values, i) => [`curve_${i}`, values[d]])]));
+
+const RegionSimilarityPanel: React.FC<RegionSimilarityPanelProps> = ({
+  data,
+  country,
+  range,
+  mobilityCurves,
+  target,
+  onTargetChange,
+  onCompare,
+}) => {
+  const [metric, setMetric] = useState<MovementMetric>('mobility');
+  const [clusterCount, setClusterCount] = useState(4);
+
+  // Stay-home curves are only read when that metric is shown
+  const curves = useMemo(
+    () => (metric === 'mobility' ? mobilityCurves : getRegionCurves(data, country, metric, range)),
+    [metric, mobilityCurves, data, country, range]
+  );
+  const similar = useMemo(() => (target ? findSimilarRegions(curves, target) : []), [curves, target]);
+  // k-means is too slow to re-run on every range change (the brush included), so groups are only
+  // computed when asked for and marked out of date once the curves or the group count move on
+  const [clusterRun, setClusterRun] = useState<ClusterRun | null>(null);
+  const clustersStale = !!clusterRun && (clusterRun.curves !== curves || clusterRun.clusterCount !== clusterCount);
+  const runClustering = () => setClusterRun({ curves, clusterCount, ...clusterRegions(curves, clusterCount) });
+
+  const targetIndex = curves.regions.findIndex(r => r.key === target);
+  const targetName = curves.regions[targetIndex]?.name ?? target;
+  const charted = targetIndex === -1 ? [] : [targetIndex, ...similar.slice(0, SIMILAR_CHARTED).map(s => curves.regions.indexOf(s.region))];
+  const similarRows = useMemo(
+    () => curveRows(curves.dates, charted.map(r => curves.values[r])),
+    [curves, charted.join(',')]
+  );
+  const clusterRows = useMemo(
+    () => (clusterRun ? curveRows(clusterRun.curves.dates, clusterRun.clusters.map(c => c.mean)) : []),
+    [clusterRun]
+  );
+
+  const chartAxes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+      <XAxis dataKey="ds" tick={{ fontSize: 10 }} tickMargin={10} stroke="#94a3b8" minTickGap={30} />
+      <YAxis tickFormatter={(v) => `${(v * 100).toFixed(0)}%`} tick={{ fontSize: 10 }} stroke="#94a3b8" />
+      <Tooltip formatter={(value: number | null) => formatPercent(value)} labelStyle={{ color: '#64748b' }} />
+      <Legend wrapperStyle={{ paddingTop: '10px' }} />
+    </>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row justify-between items-center gap-4">
+        <div className="flex items-center gap-4">
+          <Shapes className="w-5 h-5 text-slate-500" />
+          <h3 className="font-bold text-slate-800">Similar Regions & Clusters · {country}</h3>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex bg-slate-100 rounded-lg p-1">
+            <button
+              onClick={() => setMetric('mobility')}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${metric === 'mobility' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Mobility
+            </button>
+            <button
+              onClick={() => setMetric('stay')}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${metric === 'stay' ? 'bg-white text-purple-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Stay Home
+            </button>
+          </div>
+          <select
+            className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2"
+            value={clusterCount}
+            onChange={(e) => setClusterCount(Number(e.target.value))}
+            title="Number of groups"
+          >
+            {CLUSTER_COUNTS.map(k => <option key={k} value={k}>{k} groups</option>)}
+          </select>
+        </div>
+      </div>
+
+      {/* Similar regions */}
+      <div className="p-6 border-b border-slate-100">
+        {!target ? (
+          <p className="text-sm text-slate-500 text-center">
+            Use the search button on a matrix row, or click a region below, to find the regions whose curves move most like it.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+              <h4 className="text-md font-bold text-slate-800">Regions most like {targetName}</h4>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onCompare([target, ...similar.slice(0, SIMILAR_COMPARED).map(s => s.region.key)])}
+                  disabled={similar.length === 0}
+                  className="flex items-center px-3 py-2 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <GitCompare className="w-4 h-4 mr-1.5" />
+                  Compare in charts
+                </button>
+                <button
+                  onClick={() => onTargetChange(null)}
+                  className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+                  title="Clear"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {similar.length === 0 ? (
+              <p className="text-sm text-slate-500">No other region shares enough reported days with {targetName} to compare.</p>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <table className="w-full text-sm text-left text-slate-600">
+                  <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-2">Region</th>
+                      <th className="px-4 py-2 text-right">Correlation</th>
+                      <th className="px-4 py-2 text-right">Shared Days</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {similar.map(s => (
+                      <tr key={s.region.key} onClick={() => onTargetChange(s.region.key)} className="hover:bg-slate-50 transition-colors cursor-pointer">
+                        <td className="px-4 py-2 font-medium text-slate-900">{s.region.name}</td>
+                        <td className="px-4 py-2 text-right">{s.correlation.toFixed(2)}</td>
+                        <td className="px-4 py-2 text-right text-xs text-slate-400">{s.overlap}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="h-[300px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={similarRows} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                      {chartAxes}
+                      {charted.map((r, i) => (
+                        <Line key={curves.regions[r].key} type="monotone" dataKey={`curve_${i}`} name={curves.regions[r].name} stroke={seriesColor(i)} strokeWidth={i === 0 ? 3 : 1.5} dot={false} />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Clusters */}
+      <div className="p-6">
+        <div className="flex flex-wrap items-start justify-between gap-2 mb-4">
+          <div>
+            <h4 className="text-md font-bold text-slate-800 mb-1">Groups of regions with similar curves</h4>
+            <p className="text-xs text-slate-400">
+              Grouped by the shape of each region's curve; lines show each group's average.
+              {clusterRun && clusterRun.unclustered.length > 0 && ` ${clusterRun.unclustered.length} regions with too few reported days are left out.`}
+              {clustersStale && ' The groups are out of date for the current selection.'}
+            </p>
+          </div>
+          <button
+            onClick={runClustering}
+            disabled={!!clusterRun && !clustersStale}
+            className="flex items-center px-3 py-2 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {clusterRun ? <RefreshCw className="w-4 h-4 mr-1.5" /> : <Shapes className="w-4 h-4 mr-1.5" />}
+            {clusterRun ? 'Update groups' : 'Group regions'}
+          </button>
+        </div>
+        {!clusterRun ? (
+          <p className="text-sm text-slate-500 text-center py-6">Group the regions to see which ones moved alike over the selected dates.</p>
+        ) : clusterRun.clusters.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-6">No region has enough reported days to group.</p>
+        ) : (
+          <>
+            <div className="h-[300px] mb-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={clusterRows} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                  {chartAxes}
+                  {clusterRun.clusters.map((c, i) => (
+                    <Line key={i} type="monotone" dataKey={`curve_${i}`} name={`Group ${i + 1} (${c.regions.length})`} stroke={seriesColor(i)} strokeWidth={2} dot={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="space-y-2">
+              {clusterRun.clusters.map((c, i) => (
+                <div key={i} className="flex items-start gap-3 text-xs">
+                  <span className="flex items-center font-semibold text-slate-600 whitespace-nowrap w-20 shrink-0 pt-1">
+                    <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: seriesColor(i) }}></span>
+                    Group {i + 1}
+                  </span>
+                  <div className="flex flex-wrap gap-1">
+                    {c.regions.map(region => (
+                      <button
+                        key={region.key}
+                        onClick={() => onTargetChange(region.key)}
+                        className={`px-2 py-1 rounded border transition-colors ${
+                          region.key === target ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                        }`}
+                      >
+                        {region.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RegionSimilarityPanel;
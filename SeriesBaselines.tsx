@@ -0,0 +1,57 @@
+import React from 'react';
+import { AlertTriangle, Ruler } from 'lucide-react';
+import { BaselineUsage, describeBaselines, findMixedBaselines, formatBaseline } from '../services/baselineService';
+
+export interface SeriesBaselineItem {
+  id: string;
+  label: string;
+  color: string;
+  baselines: BaselineUsage[];
+}
+
+interface SeriesBaselinesProps {
+  items: SeriesBaselineItem[]; // the series drawn on the charts, in legend order
+}
+
+// Which baseline each charted series is measured against, with a warning when they differ
+const SeriesBaselines: React.FC<SeriesBaselinesProps> = ({ items }) => {
+  const mixed = findMixedBaselines(items.map(item => item.baselines));
+  if (items.length === 0) return null;
+
+  if (mixed.length === 0) {
+    const shared = items.find(item => item.baselines.length > 0)?.baselines;
+    if (!shared) return null;
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-500">
+        <Ruler className="w-4 h-4 text-slate-400" />
+        {items.length > 1 ? 'All series are measured' : 'Measured'} against the {describeBaselines(shared)} baseline
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 text-sm">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
+        <div className="space-y-2">
+          <p className="text-amber-800">
+            The charted data is measured against {mixed.length} different baselines
+            ({mixed.map(formatBaseline).join(', ')}), so their levels are not directly comparable.
+            Filter the data to one baseline type to compare like with like.
+          </p>
+          <ul className="space-y-1 text-xs">
+            {items.map(item => (
+              <li key={item.id} className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: item.color }}></span>
+                <span className="font-medium text-slate-700">{item.label}</span>
+                <span className="text-slate-500">{describeBaselines(item.baselines)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeriesBaselines;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Eye, EyeOff, Plus, Trash2 } from 'lucide-react';
+import { RegionEntry, SeriesSelection } from '../types';
+import { WHOLE_COUNTRY_OPTION } from '../services/aggregationService';
+import { MAX_SERIES, seriesColor, suggestNextSeries } from '../services/seriesService';
+
+interface SeriesListEditorProps {
+  series: SeriesSelection[];
+  countries: string[];
+  regionsOf: (country: string) => RegionEntry[];
+  onChange: (series: SeriesSelection[]) => void;
+  // Rows that cannot be removed, so a view always keeps its primary series
+  minSeries?: number;
+  // Palette index of the first row, when another series already holds the first colour
+  colorOffset?: number;
+  // Seeds a new row when the list is empty
+  seed?: SeriesSelection[];
+}
+
+const SeriesListEditor: React.FC<SeriesListEditorProps> = ({
+  series,
+  countries,
+  regionsOf,
+  onChange,
+  minSeries = 0,
+  colorOffset = 0,
+  seed = [],
+}) => {
+  const canAdd = series.length + colorOffset < MAX_SERIES;
+
+  const update = (id: string, patch: Partial<SeriesSelection>) =>
+    onChange(series.map(s => (s.id === id ? { ...s, ...patch } : s)));
+
+  return (
+    <div className="space-y-3">
+      {series.map((s, i) => (
+        <div key={s.id} className="flex items-center gap-3">
+          <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: seriesColor(i + colorOffset) }}></span>
+          <select
+            className="flex-1 min-w-0 bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
+            value={s.country}
+            onChange={(e) => update(s.id, { country: e.target.value, region: WHOLE_COUNTRY_OPTION })}
+          >
+            {countries.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+          <select
+            className="flex-1 min-w-0 bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5"
+            value={s.region}
+            onChange={(e) => update(s.id, { region: e.target.value })}
+          >
+            <option value={WHOLE_COUNTRY_OPTION} className="font-bold text-blue-800 bg-blue-50">{WHOLE_COUNTRY_OPTION}</option>
+            {regionsOf(s.country).map((r) => (
+              <option key={r.key} value={r.key}>{r.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => update(s.id, { hidden: !s.hidden })}
+            className="p-2 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+            title={s.hidden ? 'Show in charts' : 'Hide from charts'}
+          >
+            {s.hidden ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={() => onChange(series.filter(other => other.id !== s.id))}
+            disabled={i < minSeries}
+            className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-400"
+            title="Remove series"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...series, suggestNextSeries([...seed, ...series], countries, regionsOf)])}
+        disabled={!canAdd}
+        className="flex items-center px-3 py-2 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <Plus className="w-4 h-4 mr-1.5" />
+        {canAdd ? 'Add Series' : `Up to ${MAX_SERIES} series`}
+      </button>
+    </div>
+  );
+};
+
+export default SeriesListEditor;
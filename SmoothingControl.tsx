@@ -0,0 +1,57 @@
+import React from 'react';
+import { Waves } from 'lucide-react';
+import { SmoothingConfig } from '../types';
+import { SMOOTHING_WINDOWS } from '../services/smoothingService';
+
+interface SmoothingControlProps {
+  config: SmoothingConfig;
+  onChange: (config: SmoothingConfig) => void;
+}
+
+// Compact per-chart settings, sized to sit in a chart card's title row
+const SmoothingControl: React.FC<SmoothingControlProps> = ({ config, onChange }) => (
+  <div className="flex flex-wrap items-center gap-2 text-xs font-normal">
+    <Waves className="w-4 h-4 text-slate-400" />
+    <select
+      className="bg-white border border-slate-300 text-slate-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 p-1.5"
+      value={config.window}
+      onChange={(e) => onChange({ ...config, window: Number(e.target.value) })}
+      title="Moving average"
+    >
+      {SMOOTHING_WINDOWS.map(w => (
+        <option key={w} value={w}>{w === 1 ? 'Daily' : `${w}-day avg`}</option>
+      ))}
+    </select>
+
+    {config.window > 1 && (
+      <div className="flex bg-slate-100 rounded-lg p-1">
+        <button
+          onClick={() => onChange({ ...config, alignment: 'centred' })}
+          className={`px-2 py-0.5 rounded-md transition-all ${config.alignment === 'centred' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          title="Average the days either side of each date"
+        >
+          Centred
+        </button>
+        <button
+          onClick={() => onChange({ ...config, alignment: 'trailing' })}
+          className={`px-2 py-0.5 rounded-md transition-all ${config.alignment === 'trailing' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          title="Average each date with the days before it"
+        >
+          Trailing
+        </button>
+      </div>
+    )}
+
+    <label className="flex items-center gap-1 text-slate-500 cursor-pointer" title="Remove the average weekday/weekend pattern">
+      <input
+        type="checkbox"
+        checked={config.weekdayAdjust}
+        onChange={(e) => onChange({ ...config, weekdayAdjust: e.target.checked })}
+        className="accent-blue-600"
+      />
+      Weekday adj.
+    </label>
+  </div>
+);
+
+export default SmoothingControl;
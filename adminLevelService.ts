@@ -0,0 +1,123 @@
+import { MovementDataset, ParentMapping, RegionEntry } from '../types';
+import { findColumn, readTableFile } from './formatService';
+import { getCountryPolygons, getCountryRegions, getRegionKey } from './movementDataset';
+
+// One polygon source (a GADM level, FIPS, ...) within a country
+export interface PolygonSourceSummary {
+  source: string;
+  polygons: number;
+}
+
+const CHILD_COLUMNS = ['polygon_id', 'child_id', 'child_polygon_id', 'region_id', 'id'];
+const PARENT_COLUMNS = ['parent_id', 'parent_polygon_id', 'parent'];
+const CHILD_SOURCE_COLUMNS = ['polygon_source', 'child_source', 'child_polygon_source', 'source'];
+const PARENT_SOURCE_COLUMNS = ['parent_source', 'parent_polygon_source'];
+
+// The sources of a country's polygons, the one with the most polygons first
+export const getCountrySources = (data: MovementDataset, country: string): PolygonSourceSummary[] => {
+  const counts = new Map<string, number>();
+  getCountryPolygons(data, country).forEach(p => {
+    const source = data.polygons[p].polygon_source;
+    counts.set(source, (counts.get(source) ?? 0) + 1);
+  });
+  return Array.from(counts, ([source, polygons]) => ({ source, polygons }))
+    .sort((a, b) => b.polygons - a.polygons || (a.source < b.source ? -1 : a.source > b.source ? 1 : 0));
+};
+
+// Countries whose polygons come from more than one source, with their sources
+export const getMixedSourceCountries = (data: MovementDataset): { country: string; sources: PolygonSourceSummary[] }[] =>
+  data.countries
+    .map(country => ({ country, sources: getCountrySources(data, country) }))
+    .filter(c => c.sources.length > 1);
+
+// The source a country is analysed at: the chosen one when the country has it, otherwise its largest
+export const resolveCountrySource = (data: MovementDataset, country: string, chosen?: string): string | undefined => {
+  const sources = getCountrySources(data, country);
+  return sources.some(s => s.source === chosen) ? chosen : sources[0]?.source;
+};
+
+// A view of the dataset where every country keeps the polygons of a single source, so regions of different
+// granularities are never averaged together. Countries with one source are left as they are.
+export const filterByPolygonSource = (data: MovementDataset, sourceByCountry: Record<string, string>): MovementDataset => {
+  const mixed = getMixedSourceCountries(data);
+  if (mixed.length === 0) return data;
+
+  const polygonsByCountry = [...data.polygonsByCountry];
+  mixed.forEach(({ country }) => {
+    const c = data.countries.indexOf(country);
+    const source = resolveCountrySource(data, country, sourceByCountry[country]);
+    polygonsByCountry[c] = polygonsByCountry[c].filter(p => data.polygons[p].polygon_source === source);
+  });
+  return { ...data, polygonsByCountry };
+};
+
+// Reads a polygon_id → parent_id table (CSV, TSV, JSON or Parquet), with optional polygon_source and
+// parent_source columns. Links are kept only when both ends are loaded polygons, so a table covering other
+// countries can be used as it is. An id without a source column is resolved only when a single source
+// holds it; ids shared by several sources are skipped and counted rather than linked to each of them.
+export const parseParentMapping = async (file: File, data: MovementDataset): Promise<ParentMapping> => {
+  const { rows, columns } = await readTableFile(file);
+  const parentColumn = findColumn(columns, PARENT_COLUMNS);
+  const parentSourceColumn = findColumn(columns, PARENT_SOURCE_COLUMNS);
+  const rest = columns.filter(c => c !== parentColumn && c !== parentSourceColumn);
+  const childColumn = findColumn(rest, CHILD_COLUMNS);
+  const childSourceColumn = findColumn(rest.filter(c => c !== childColumn), CHILD_SOURCE_COLUMNS);
+  if (!childColumn || !parentColumn) {
+    throw new Error('Expected a polygon_id column and a parent_id column.');
+  }
+
+  const regionKeys = new Set(data.polygons.map(getRegionKey));
+  const keysById = new Map<string, Set<string>>();
+  data.polygons.forEach(p => {
+    const keys = keysById.get(p.polygon_id) ?? new Set<string>();
+    keys.add(getRegionKey(p));
+    keysById.set(p.polygon_id, keys);
+  });
+
+  let ambiguous = 0;
+  const resolve = (id: string | undefined, source: string | undefined): string | undefined => {
+    if (!id) return undefined;
+    if (source !== undefined) {
+      const key = getRegionKey({ polygon_source: source, polygon_id: id });
+      return regionKeys.has(key) ? key : undefined;
+    }
+    const keys = keysById.get(id);
+    if (keys && keys.size > 1) ambiguous++;
+    return keys?.size === 1 ? keys.values().next().value : undefined;
+  };
+
+  const parentOf = new Map<string, string>();
+  rows.forEach(row => {
+    const child = resolve(row[childColumn]?.trim(), childSourceColumn && row[childSourceColumn]?.trim());
+    const parent = resolve(row[parentColumn]?.trim(), parentSourceColumn && row[parentSourceColumn]?.trim());
+    if (child && parent && child !== parent) parentOf.set(child, parent);
+  });
+  if (parentOf.size === 0) {
+    throw new Error(ambiguous > 0
+      ? 'The ids in the table are used by several polygon sources; add polygon_source and parent_source columns.'
+      : 'None of the rows link two polygons of the loaded data.');
+  }
+
+  return { name: file.name, parentOf, matched: parentOf.size, ambiguous };
+};
+
+// How many children each region of a country has, by region key, counting children at any source
+export const countChildren = (data: MovementDataset, country: string, mapping: ParentMapping): Map<string, number> => {
+  const regionKeys = getCountryPolygons(data, country).map(p => getRegionKey(data.polygons[p]));
+  const byParent = new Map<string, number>();
+  regionKeys.forEach(key => {
+    const parent = mapping.parentOf.get(key);
+    if (parent !== undefined) byParent.set(parent, (byParent.get(parent) ?? 0) + 1);
+  });
+  const counts = new Map<string, number>();
+  regionKeys.forEach(key => {
+    const children = byParent.get(key);
+    if (children !== undefined) counts.set(key, children);
+  });
+  return counts;
+};
+
+// The regions a region splits into. `data` should keep every source of the country, since children
+// are usually at a finer level than the one being analysed.
+export const getChildRegions = (data: MovementDataset, country: string, parentKey: string, mapping: ParentMapping): RegionEntry[] =>
+  getCountryRegions(data, country).filter(r => mapping.parentOf.get(r.key) === parentKey);
@@ -0,0 +1,314 @@
+import { AggregateResult, DateRange, MovementDataset, MovementMetric, NormalizedDataPoint, PolygonValue, PopulationTable, RegionEntry, RegionStats, TrendPoint } from '../types';
+import { findCountryRegion, findRegionPolygon, getCountryPolygons, getCountryRegions, getRegionKey } from './movementDataset';
+import { getPolygonWeights } from './populationService';
+
+export const WHOLE_COUNTRY_OPTION = '(Whole Country Average)';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const addDays = (ds: string, days: number): string =>
+  new Date(new Date(`${ds}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+export const daysBetween = (start: string, end: string): number =>
+  Math.round((new Date(`${end}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / DAY_MS);
+
+// Inserts a placeholder for every calendar day missing from a date-sorted series,
+// so charts draw a break rather than joining the points either side of the gap
+export const fillDateGaps = <T extends { ds: string }>(points: T[], makeGap: (ds: string) => T): T[] => {
+  if (points.length === 0) return points;
+  const filled: T[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1].ds;
+    const next = points[i].ds;
+    for (let ds = addDays(prev, 1); ds < next; ds = addDays(ds, 1)) {
+      filled.push(makeGap(ds));
+    }
+    filled.push(points[i]);
+  }
+  return filled;
+};
+
+const valueOrNull = (v: number): number | null => (isNaN(v) ? null : v);
+
+// Date codes [lo, hi] covered by a range; the dates dictionary is sorted, so codes follow the calendar.
+// Without a range every code is included.
+export const getDateCodeRange = (data: MovementDataset, range?: DateRange | null): [number, number] => {
+  if (!range) return [0, data.dates.length - 1];
+  let lo = 0;
+  while (lo < data.dates.length && data.dates[lo] < range.start) lo++;
+  let hi = data.dates.length - 1;
+  while (hi >= 0 && data.dates[hi] > range.end) hi--;
+  return [lo, hi];
+};
+
+// Helper to calculate country-wide aggregates
+export const calculateCountryAggregates = (
+  data: MovementDataset,
+  country: string,
+  range?: DateRange | null,
+  population?: PopulationTable | null
+): AggregateResult | null => {
+  if (!country) return null;
+  return calculateRegionsAggregate(data, getCountryRegions(data, country), range, population);
+};
+
+// Aggregates over a list of regions, such as a country's or the children of one region.
+// Only the row ranges of their polygons are visited, never the whole dataset.
+// With a population table the daily averages are population-weighted; otherwise every polygon counts once.
+export const calculateRegionsAggregate = (
+  data: MovementDataset,
+  regions: RegionEntry[],
+  range?: DateRange | null,
+  population?: PopulationTable | null
+): AggregateResult | null => {
+  const polygonIdx = regions.map(r => r.polygon);
+  if (polygonIdx.length === 0) return null;
+  const [loCode, hiCode] = getDateCodeRange(data, range);
+  const polygonWeights = population ? getPolygonWeights(data, polygonIdx, population) : null;
+
+  // 1. Aggregated Trend (Avg per day), indexed by date code. Missing values are skipped, not counted as 0.
+  const mobCounts = new Uint32Array(data.dates.length);
+  const mobWeights = new Float64Array(data.dates.length);
+  const stayWeights = new Float64Array(data.dates.length);
+  const mobSums = new Float64Array(data.dates.length);
+  const staySums = new Float64Array(data.dates.length);
+  const seen = new Uint8Array(data.dates.length);
+
+  // 2. Region Matrix Data, one row per polygon
+  const regionMap = new Map<string, RegionStats & { stayPoints: number }>();
+
+  regions.forEach((region, pi) => {
+    const polygon = data.polygons[region.polygon];
+    const weight = polygonWeights ? polygonWeights.weights[pi] : 1;
+
+    // Region Accumulation
+    const rEntry: RegionStats & { stayPoints: number } = {
+      key: region.key,
+      name: region.name,
+      avgMobility: 0,
+      avgStay: 0,
+      maxStay: null,
+      minMobility: null,
+      dataPoints: 0,
+      stayPoints: 0,
+      coverage: 0,
+      ...(polygonWeights ? { weight } : {})
+    };
+    regionMap.set(region.key, rEntry);
+
+    for (let i = polygon.rowStart; i < polygon.rowEnd; i++) {
+      const mobility = data.mobility[i];
+      const stay = data.stay[i];
+      const d = data.date[i];
+      if (d < loCode || d > hiCode) continue;
+      seen[d] = 1;
+
+      // Trend Accumulation
+      if (!isNaN(mobility)) {
+        mobCounts[d]++;
+        mobWeights[d] += weight;
+        mobSums[d] += mobility * weight;
+        rEntry.avgMobility! += mobility;
+        rEntry.minMobility = rEntry.minMobility === null ? mobility : Math.min(rEntry.minMobility, mobility);
+        rEntry.dataPoints++;
+      }
+      if (!isNaN(stay)) {
+        stayWeights[d] += weight;
+        staySums[d] += stay * weight;
+        rEntry.avgStay! += stay;
+        rEntry.maxStay = rEntry.maxStay === null ? stay : Math.max(rEntry.maxStay, stay);
+        rEntry.stayPoints++;
+      }
+    }
+  });
+
+  // Finalize Trend (date codes are already in chronological order)
+  const trend: TrendPoint[] = [];
+  for (let d = 0; d < data.dates.length; d++) {
+    if (!seen[d]) continue;
+    trend.push({
+      ds: data.dates[d],
+      avgMobility: mobWeights[d] > 0 ? mobSums[d] / mobWeights[d] : null,
+      avgStay: stayWeights[d] > 0 ? staySums[d] / stayWeights[d] : null,
+      coverage: mobCounts[d] / polygonIdx.length
+    });
+  }
+
+  const days = trend.length > 0 ? daysBetween(trend[0].ds, trend[trend.length - 1].ds) + 1 : 0;
+
+  // Finalize Matrix
+  const matrix: RegionStats[] = Array.from(regionMap.values()).map(({ stayPoints, ...r }) => ({
+    ...r,
+    avgMobility: r.dataPoints > 0 ? r.avgMobility! / r.dataPoints : null,
+    avgStay: stayPoints > 0 ? r.avgStay! / stayPoints : null,
+    coverage: days > 0 ? Math.min(1, r.dataPoints / days) : 0
+  }));
+
+  return {
+    trend: fillDateGaps(trend, ds => ({ ds, avgMobility: null, avgStay: null, coverage: 0 })),
+    matrix,
+    totalRegions: regionMap.size,
+    ...(polygonWeights
+      ? { weighting: { populated: polygonWeights.populated, fallback: polygonIdx.length - polygonWeights.populated } }
+      : {})
+  };
+};
+
+// Helper to format a single region's data as an aggregate structure (for polymorphic usage)
+export const calculateRegionAsAggregate = (dataset: NormalizedDataPoint[], region: RegionEntry): AggregateResult | null => {
+  if (dataset.length === 0) return null;
+
+  // Trend
+  const trend: TrendPoint[] = dataset.map(d => ({
+    ds: d.ds,
+    avgMobility: d.mobility,
+    avgStay: d.stay,
+    coverage: d.mobility === null ? 0 : 1
+  }));
+
+  // Matrix (Single Row)
+  const mobilityVals = dataset.filter(d => d.mobility !== null).map(d => d.mobility!);
+  const stayVals = dataset.filter(d => d.stay !== null).map(d => d.stay!);
+
+  const matrix: RegionStats[] = [{
+     key: region.key,
+     name: region.name,
+     avgMobility: mobilityVals.length > 0 ? mobilityVals.reduce((a, b) => a + b, 0) / mobilityVals.length : null,
+     avgStay: stayVals.length > 0 ? stayVals.reduce((a, b) => a + b, 0) / stayVals.length : null,
+     maxStay: stayVals.length > 0 ? Math.max(...stayVals) : null,
+     minMobility: mobilityVals.length > 0 ? Math.min(...mobilityVals) : null,
+     dataPoints: mobilityVals.length,
+     coverage: mobilityVals.length / dataset.length
+  }];
+
+  return { trend, matrix, totalRegions: 1 };
+};
+
+// --- Get Normalized Series (Raw or Aggregated) ---
+export const getNormalizedSeries = (
+  data: MovementDataset,
+  c: string,
+  r: string,
+  range?: DateRange | null,
+  population?: PopulationTable | null
+): NormalizedDataPoint[] => {
+  if (!c || !r) return [];
+
+  // Case A: Whole Country Average
+  if (r === WHOLE_COUNTRY_OPTION) {
+      const agg = calculateCountryAggregates(data, c, range, population);
+      if (!agg) return [];
+      return agg.trend.map(t => ({
+          ds: t.ds,
+          mobility: t.avgMobility,
+          stay: t.avgStay,
+          baseline_type: 'AVERAGE'
+      }));
+  }
+
+  // Case B: Specific Region (read straight from its polygon's row range, which is sorted by date)
+  const p = findRegionPolygon(data, c, r);
+  if (p === undefined) return [];
+  const polygon = data.polygons[p];
+  const [loCode, hiCode] = getDateCodeRange(data, range);
+  const rows: number[] = [];
+  for (let i = polygon.rowStart; i < polygon.rowEnd; i++) {
+      if (data.date[i] >= loCode && data.date[i] <= hiCode) rows.push(i);
+  }
+  const series = rows
+      .map(i => ({
+          ds: data.dates[data.date[i]],
+          mobility: valueOrNull(data.mobility[i]),
+          stay: valueOrNull(data.stay[i]),
+          baseline_type: data.baselines[data.baseline[i]].baseline_type
+      }));
+  return fillDateGaps<NormalizedDataPoint>(series, ds => ({ ds, mobility: null, stay: null }));
+};
+
+// --- Aggregate for one comparison series: a whole country, or a single region shaped like one ---
+export const calculateSeriesAggregate = (
+  data: MovementDataset,
+  c: string,
+  r: string,
+  range?: DateRange | null,
+  population?: PopulationTable | null
+): AggregateResult | null => {
+  if (r === WHOLE_COUNTRY_OPTION) return calculateCountryAggregates(data, c, range, population);
+  const region = findCountryRegion(data, c, r);
+  return region ? calculateRegionAsAggregate(getNormalizedSeries(data, c, r, range), region) : null;
+};
+
+export const calculateStats = (dataset: NormalizedDataPoint[]) => {
+  if (dataset.length === 0) return null;
+  const mobilityChanges = dataset.filter(d => d.mobility !== null).map(d => d.mobility!);
+  const stayHomeRatios = dataset.filter(d => d.stay !== null).map(d => d.stay!);
+
+  const avgMobility = mobilityChanges.length > 0
+    ? mobilityChanges.reduce((a, b) => a + b, 0) / mobilityChanges.length
+    : null;
+  const maxStayHome = stayHomeRatios.length > 0 ? Math.max(...stayHomeRatios) : null;
+  const totalDays = daysBetween(dataset[0].ds, dataset[dataset.length - 1].ds) + 1;
+
+  return {
+    avgMobility: avgMobility === null ? null : (avgMobility * 100).toFixed(1),
+    maxStayHome: maxStayHome === null ? null : (maxStayHome * 100).toFixed(1),
+    count: mobilityChanges.length,
+    totalDays,
+    coverage: mobilityChanges.length / totalDays,
+    start: dataset[0].ds,
+    end: dataset[dataset.length - 1].ds,
+  };
+};
+
+// Mean of the regions' averages, ignoring regions that have no values at all
+// Regions carry a weight when the aggregate was population-weighted; otherwise each counts once
+export const averageOfRegions = (matrix: RegionStats[], key: 'avgMobility' | 'avgStay'): number | null => {
+  let sum = 0;
+  let weights = 0;
+  matrix.forEach(r => {
+    const value = r[key];
+    if (value === null) return;
+    const weight = r.weight ?? 1;
+    sum += value * weight;
+    weights += weight;
+  });
+  return weights > 0 ? sum / weights : null;
+};
+
+export const averageCoverage = (trend: TrendPoint[]): number =>
+  trend.length > 0 ? trend.reduce((sum, t) => sum + t.coverage, 0) / trend.length : 0;
+
+// Each polygon's value on one day, keyed by region key so polygons of different sources sharing an id
+// are kept apart. Rows within a polygon are sorted by date, so the day is found by binary search over
+// the polygon's row range.
+export const getPolygonValuesOnDate = (
+  data: MovementDataset,
+  country: string,
+  ds: string,
+  metric: MovementMetric
+): Map<string, PolygonValue> => {
+  const values = new Map<string, PolygonValue>();
+  const dateCode = data.dates.indexOf(ds);
+  const column = metric === 'mobility' ? data.mobility : data.stay;
+
+  getCountryPolygons(data, country).forEach(p => {
+    const polygon = data.polygons[p];
+    let lo = polygon.rowStart;
+    let hi = polygon.rowEnd;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (data.date[mid] < dateCode) lo = mid + 1;
+      else hi = mid;
+    }
+    const found = dateCode !== -1 && lo < polygon.rowEnd && data.date[lo] === dateCode;
+    values.set(getRegionKey(polygon), {
+      key: getRegionKey(polygon),
+      polygon_source: polygon.polygon_source,
+      polygon_id: polygon.polygon_id,
+      polygon_name: polygon.polygon_name,
+      value: found ? valueOrNull(column[lo]) : null,
+    });
+  });
+
+  return values;
+};
@@ -0,0 +1,118 @@
+import { DateRange, EventAnnotation, MovementDataset } from '../types';
+import { findColumn, formatDelimitedRows, readTableFile } from './formatService';
+import { isValidDate } from './validationService';
+import { WHOLE_COUNTRY_OPTION } from './aggregationService';
+import { findRegionPolygon } from './movementDataset';
+
+const STORAGE_KEY = 'movement-dashboard:annotations';
+
+export const ANNOTATION_CATEGORIES: { id: string; label: string; color: string }[] = [
+  { id: 'lockdown', label: 'Lockdown', color: '#dc2626' },
+  { id: 'reopening', label: 'Reopening', color: '#16a34a' },
+  { id: 'schools', label: 'Schools', color: '#d97706' },
+  { id: 'holiday', label: 'Holiday', color: '#7c3aed' },
+  { id: 'other', label: 'Other', color: '#64748b' },
+];
+
+export const categoryColor = (category: string): string =>
+  ANNOTATION_CATEGORIES.find(c => c.id === category)?.color ?? '#64748b';
+
+// Header names accepted when importing, compared after lower-casing and stripping punctuation
+const EVENT_COLUMNS = {
+  ds: ['ds', 'date', 'day'],
+  country: ['country', 'country_code', 'iso3', 'iso'],
+  polygon_id: ['polygon_id', 'gadm_id', 'region_id'],
+  label: ['label', 'event', 'title', 'name', 'description'],
+  category: ['category', 'type', 'kind'],
+};
+
+let nextAnnotationId = 0;
+
+// Ids only need to be unique within one browser's stored list
+export const createAnnotation = (fields: Omit<EventAnnotation, 'id'>): EventAnnotation => ({
+  id: `${Date.now().toString(36)}-${(nextAnnotationId++).toString(36)}`,
+  ...fields,
+});
+
+export const loadAnnotations = (): EventAnnotation[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAnnotations = (annotations: EventAnnotation[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(annotations));
+};
+
+const sameEvent = (a: Omit<EventAnnotation, 'id'>, b: Omit<EventAnnotation, 'id'>) =>
+  a.ds === b.ds && a.country === b.country && (a.polygon_id ?? '') === (b.polygon_id ?? '') && a.label === b.label;
+
+// Adds imported events, skipping any already in the list; the result is sorted by date
+export const mergeAnnotations = (existing: EventAnnotation[], incoming: EventAnnotation[]): EventAnnotation[] => {
+  const merged = [...existing];
+  incoming.forEach(e => {
+    if (!merged.some(m => sameEvent(m, e))) merged.push(e);
+  });
+  return merged.sort((a, b) => (a.ds < b.ds ? -1 : a.ds > b.ds ? 1 : 0));
+};
+
+// Reads events from a CSV, TSV or JSON table with date, country and label columns, plus optional
+// polygon_id and category. Rows without a valid date, a country or a label are skipped.
+export const parseAnnotationFile = async (file: File): Promise<EventAnnotation[]> => {
+  const { rows, columns } = await readTableFile(file);
+  const column = Object.fromEntries(
+    Object.entries(EVENT_COLUMNS).map(([field, candidates]) => [field, findColumn(columns, candidates)])
+  ) as Record<keyof typeof EVENT_COLUMNS, string | undefined>;
+  if (!column.ds || !column.country || !column.label) {
+    throw new Error('Expected date, country and label columns.');
+  }
+
+  const events: EventAnnotation[] = [];
+  rows.forEach(row => {
+    const ds = row[column.ds!]?.trim() ?? '';
+    const country = row[column.country!]?.trim() ?? '';
+    const label = row[column.label!]?.trim() ?? '';
+    if (!isValidDate(ds) || !country || !label) return;
+    const polygonId = column.polygon_id ? row[column.polygon_id]?.trim() : '';
+    const category = (column.category ? row[column.category]?.trim().toLowerCase() : '') || 'other';
+    events.push(createAnnotation({ ds, country, label, category, ...(polygonId ? { polygon_id: polygonId } : {}) }));
+  });
+  if (events.length === 0) throw new Error('No rows had a valid date, country and label.');
+  return events;
+};
+
+export const formatAnnotationsCsv = (annotations: EventAnnotation[]): string =>
+  formatDelimitedRows(
+    [
+      ['ds', 'country', 'polygon_id', 'label', 'category'],
+      ...annotations.map(e => [e.ds, e.country, e.polygon_id ?? '', e.label, e.category]),
+    ],
+    ','
+  );
+
+// What a chart series covers: a whole country, or one region's polygon
+export interface AnnotationScope {
+  country: string;
+  polygonIds: Set<string> | null; // null for the whole country
+}
+
+export const getSeriesScope = (data: MovementDataset, country: string, region: string): AnnotationScope => {
+  if (region === WHOLE_COUNTRY_OPTION) return { country, polygonIds: null };
+  const p = findRegionPolygon(data, country, region);
+  return { country, polygonIds: new Set(p === undefined ? [] : [data.polygons[p].polygon_id]) };
+};
+
+// Events for any of a chart's scopes within the range. Country-wide events apply to each of the country's
+// regions; an event for one polygon only appears on charts of that region.
+export const annotationsForScopes = (
+  annotations: EventAnnotation[],
+  scopes: AnnotationScope[],
+  range: DateRange | null
+): EventAnnotation[] =>
+  annotations.filter(e =>
+    (!range || (e.ds >= range.start && e.ds <= range.end)) &&
+    scopes.some(s => s.country === e.country && (!e.polygon_id || (s.polygonIds?.has(e.polygon_id) ?? false)))
+  );
@@ -0,0 +1,132 @@
+import { DateRange, MovementDataset, MovementMetric, NormalizedDataPoint, RegionEntry } from '../types';
+import { getNormalizedSeries } from './aggregationService';
+
+export interface DetectionOptions {
+  window: number; // days in the rolling baseline, and on each side of a change point
+  threshold: number; // standard deviations a day or a shift must exceed to be flagged
+}
+
+export const DEFAULT_DETECTION: DetectionOptions = { window: 14, threshold: 3 };
+
+// Spreads below one percentage point are treated as one, so near-flat stretches do not flag noise
+const MIN_SPREAD = 0.01;
+
+// A day far from the rolling baseline of the days before it
+export interface SeriesOutlier {
+  ds: string;
+  value: number;
+  expected: number; // mean of the baseline window
+  score: number; // signed distance from the baseline in standard deviations
+}
+
+// A day where the level of the series moves: the window from it onwards against the window before it
+export interface ChangePoint {
+  ds: string;
+  before: number;
+  after: number;
+  shift: number; // after - before
+  score: number; // shift in pooled standard deviations
+}
+
+export interface SeriesShifts {
+  outliers: SeriesOutlier[];
+  changePoints: ChangePoint[];
+}
+
+// The largest change point of one region, for ranking a country's regions
+export interface RegionShift extends ChangePoint {
+  region: RegionEntry;
+  outliers: number;
+}
+
+// Mean and sample standard deviation of the reported values in [lo, hi); null when fewer than half are reported
+const windowStats = (values: (number | null)[], lo: number, hi: number): { mean: number; sd: number } | null => {
+  let count = 0;
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = Math.max(0, lo); i < Math.min(values.length, hi); i++) {
+    const v = values[i];
+    if (v === null) continue;
+    count++;
+    sum += v;
+    sumSq += v * v;
+  }
+  if (count < Math.max(2, Math.ceil((hi - lo) / 2))) return null;
+  const mean = sum / count;
+  return { mean, sd: Math.sqrt(Math.max(0, (sumSq - count * mean * mean) / (count - 1))) };
+};
+
+// Days more than `threshold` standard deviations from the mean of the preceding `window` days
+export const detectOutliers = (values: (number | null)[], dates: string[], options = DEFAULT_DETECTION): SeriesOutlier[] => {
+  const outliers: SeriesOutlier[] = [];
+  values.forEach((value, i) => {
+    if (value === null) return;
+    const baseline = windowStats(values, i - options.window, i);
+    if (!baseline) return;
+    const score = (value - baseline.mean) / Math.max(baseline.sd, MIN_SPREAD);
+    if (Math.abs(score) >= options.threshold) outliers.push({ ds: dates[i], value, expected: baseline.mean, score });
+  });
+  return outliers;
+};
+
+// Sliding-window mean shift: each day compares the `window` days from it onwards with the `window` days before.
+// Only the strongest day within any `window` days is kept, so one shift is reported once rather than as a run.
+export const detectChangePoints = (values: (number | null)[], dates: string[], options = DEFAULT_DETECTION): ChangePoint[] => {
+  const { window, threshold } = options;
+  const candidates: ChangePoint[] = [];
+  const indexOf = new Map<string, number>();
+  for (let i = window; i + window <= values.length; i++) {
+    const before = windowStats(values, i - window, i);
+    const after = windowStats(values, i, i + window);
+    if (!before || !after) continue;
+    const shift = after.mean - before.mean;
+    const spread = Math.max(Math.sqrt((before.sd ** 2 + after.sd ** 2) / 2), MIN_SPREAD);
+    const score = shift / spread;
+    if (Math.abs(score) < threshold) continue;
+    candidates.push({ ds: dates[i], before: before.mean, after: after.mean, shift, score });
+    indexOf.set(dates[i], i);
+  }
+
+  const kept: ChangePoint[] = [];
+  candidates
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score))
+    .forEach(c => {
+      const i = indexOf.get(c.ds)!;
+      if (kept.every(k => Math.abs(indexOf.get(k.ds)! - i) >= window)) kept.push(c);
+    });
+  return kept.sort((a, b) => (a.ds < b.ds ? -1 : a.ds > b.ds ? 1 : 0));
+};
+
+export const detectSeriesShifts = (
+  points: NormalizedDataPoint[],
+  metric: MovementMetric,
+  options = DEFAULT_DETECTION
+): SeriesShifts => {
+  const values = points.map(p => p[metric]);
+  const dates = points.map(p => p.ds);
+  return {
+    outliers: detectOutliers(values, dates, options),
+    changePoints: detectChangePoints(values, dates, options),
+  };
+};
+
+// Every region of a country with a change point, ranked by the size of its largest shift
+export const rankRegionShifts = (
+  data: MovementDataset,
+  country: string,
+  regions: RegionEntry[],
+  metric: MovementMetric,
+  range?: DateRange | null,
+  options = DEFAULT_DETECTION
+): RegionShift[] => {
+  const ranked: RegionShift[] = [];
+  regions.forEach(region => {
+    const { outliers, changePoints } = detectSeriesShifts(getNormalizedSeries(data, country, region.key, range), metric, options);
+    const largest = changePoints.reduce<ChangePoint | null>(
+      (max, c) => (max === null || Math.abs(c.shift) > Math.abs(max.shift) ? c : max),
+      null
+    );
+    if (largest) ranked.push({ ...largest, region, outliers: outliers.length });
+  });
+  return ranked.sort((a, b) => Math.abs(b.shift) - Math.abs(a.shift));
+};
@@ -0,0 +1,187 @@
+// In-browser access to the compressed forms Movement Range data is distributed in:
+// the HDX .zip download (TSV plus README) and .tsv.gz archives.
+// Decompression uses the native DecompressionStream, so archives are inflated as they are read.
+
+export type ArchiveKind = 'zip' | 'gzip' | 'plain';
+
+export interface OpenedInput {
+  kind: ArchiveKind;
+  entryName: string; // file name inside the archive, or the file's own name
+  compressedBytes: number; // bytes that will be read from the file, for progress reporting
+  stream: (onRead: (bytes: number) => void) => ReadableStream<Uint8Array>;
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+
+const readView = async (file: Blob, start: number, end: number) =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+export const sniffArchiveKind = async (file: File): Promise<ArchiveKind> => {
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  if (head[0] === 0x1f && head[1] === 0x8b) return 'gzip';
+  if (head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04) return 'zip';
+  return 'plain';
+};
+
+// Passes chunks through unchanged, keeping their type so file bytes can still be piped into a DecompressionStream
+const countBytes = <T extends ArrayBufferView>(onRead: (bytes: number) => void) =>
+  new TransformStream<T, T>({
+    transform(chunk, controller) {
+      onRead(chunk.byteLength);
+      controller.enqueue(chunk);
+    },
+  });
+
+// Inflates a byte stream. DecompressionStream's writable side takes any BufferSource, so the bytes are
+// typed as such on the way in and come out as Uint8Array chunks.
+const decompress = (stream: ReadableStream<BufferSource>, format: CompressionFormat): ReadableStream<Uint8Array> =>
+  stream.pipeThrough(new DecompressionStream(format));
+
+const readZipEntries = async (file: File): Promise<ZipEntry[]> => {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  const tailStart = Math.max(0, file.size - 22 - 0xffff);
+  const tail = await readView(file, tailStart, file.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === ZIP_EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a valid zip archive.');
+
+  let entryCount = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  // Archives over 4 GB (or with many entries) keep the real values in a Zip64 record
+  if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+    const locator = eocd - 20;
+    if (locator < 0 || tail.getUint32(locator, true) !== ZIP64_LOCATOR_SIGNATURE) {
+      throw new Error('Zip64 archive is missing its locator record.');
+    }
+    const zip64Offset = Number(tail.getBigUint64(locator + 8, true));
+    const zip64 = await readView(file, zip64Offset, zip64Offset + 56);
+    if (zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) throw new Error('Corrupt Zip64 record.');
+    entryCount = Number(zip64.getBigUint64(32, true));
+    directorySize = Number(zip64.getBigUint64(40, true));
+    directoryOffset = Number(zip64.getBigUint64(48, true));
+  }
+
+  const directory = await readView(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+
+  for (let n = 0; n < entryCount && pos + 46 <= directory.byteLength; n++) {
+    if (directory.getUint32(pos, true) !== ZIP_CENTRAL_SIGNATURE) break;
+    const nameLength = directory.getUint16(pos + 28, true);
+    const extraLength = directory.getUint16(pos + 30, true);
+    const commentLength = directory.getUint16(pos + 32, true);
+
+    const entry: ZipEntry = {
+      name: decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength)),
+      method: directory.getUint16(pos + 10, true),
+      compressedSize: directory.getUint32(pos + 20, true),
+      uncompressedSize: directory.getUint32(pos + 24, true),
+      localHeaderOffset: directory.getUint32(pos + 42, true),
+    };
+
+    // Zip64 extra field: only the values saturated in the fixed header are present, in this order
+    let extra = pos + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.getUint16(extra, true);
+      const size = directory.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (entry.uncompressedSize === 0xffffffff) { entry.uncompressedSize = Number(directory.getBigUint64(field, true)); field += 8; }
+        if (entry.compressedSize === 0xffffffff) { entry.compressedSize = Number(directory.getBigUint64(field, true)); field += 8; }
+        if (entry.localHeaderOffset === 0xffffffff) { entry.localHeaderOffset = Number(directory.getBigUint64(field, true)); }
+      }
+      extra += 4 + size;
+    }
+
+    entries.push(entry);
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const DATA_EXTENSIONS = /\.(tsv|txt|csv|json|jsonl|ndjson|parquet)$/i;
+
+// Picks the movement-range table out of an archive: a data file rather than the README,
+// preferring one named like the published export and otherwise the largest.
+export const pickMovementEntry = <T extends { name: string; uncompressedSize: number }>(entries: T[]): T | null => {
+  const candidates = entries.filter(e =>
+    !e.name.endsWith('/') &&
+    !e.name.startsWith('__MACOSX/') &&
+    DATA_EXTENSIONS.test(e.name) &&
+    !/readme/i.test(e.name)
+  );
+  if (candidates.length === 0) return null;
+  const named = candidates.filter(e => /movement[-_ ]?range/i.test(e.name));
+  const pool = named.length > 0 ? named : candidates;
+  return pool.reduce((best, e) => (e.uncompressedSize > best.uncompressedSize ? e : best));
+};
+
+const openZip = async (file: File): Promise<OpenedInput> => {
+  const entry = pickMovementEntry(await readZipEntries(file));
+  if (!entry) throw new Error('No movement range table (.tsv, .txt, .csv, .json or .parquet) was found in the zip archive.');
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`Unsupported zip compression method (${entry.method}) for ${entry.name}.`);
+  }
+
+  const local = await readView(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (local.getUint32(0, true) !== ZIP_LOCAL_SIGNATURE) throw new Error('Corrupt zip entry header.');
+  const dataStart = entry.localHeaderOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + entry.compressedSize);
+
+  return {
+    kind: 'zip',
+    entryName: entry.name,
+    compressedBytes: entry.compressedSize,
+    stream: (onRead) => {
+      const counted = data.stream().pipeThrough(countBytes(onRead));
+      return entry.method === 0
+        ? counted
+        : decompress(counted, 'deflate-raw');
+    },
+  };
+};
+
+// Resolves a dropped file to a byte stream of the movement-range table inside it
+export const openMovementInput = async (file: File): Promise<OpenedInput> => {
+  const kind = await sniffArchiveKind(file);
+
+  if (kind === 'zip') return openZip(file);
+
+  if (kind === 'gzip') {
+    return {
+      kind,
+      entryName: file.name.replace(/\.gz$/i, ''),
+      compressedBytes: file.size,
+      stream: (onRead) => decompress(file.stream().pipeThrough(countBytes(onRead)), 'gzip'),
+    };
+  }
+
+  return {
+    kind,
+    entryName: file.name,
+    compressedBytes: file.size,
+    stream: (onRead) => file.stream().pipeThrough(countBytes(onRead)),
+  };
+};
@@ -0,0 +1,126 @@
+import { BaselineEntry, DateRange, MovementDataset } from '../types';
+import { getDateCodeRange, WHOLE_COUNTRY_OPTION } from './aggregationService';
+import { findRegionPolygon, getCountryPolygons } from './movementDataset';
+
+// One baseline behind a series, with how many of the series' rows are measured against it
+export interface BaselineUsage {
+  baseline: BaselineEntry;
+  rows: number;
+}
+
+// One baseline type across the whole dataset, for the filter
+export interface BaselineTypeSummary {
+  type: string;
+  rows: number;
+  countries: number;
+}
+
+// Two series are comparable only when they share both the baseline type and the baseline period
+const baselineId = (b: BaselineEntry) => `${b.baseline_name}\t${b.baseline_type}`;
+
+// "DAY_OF_WEEK (full_february)"; files without the columns have neither
+export const formatBaseline = (b: BaselineEntry): string => {
+  const type = b.baseline_type || 'Unknown type';
+  return b.baseline_name ? `${type} (${b.baseline_name})` : type;
+};
+
+// Usages from most to fewest rows, joined; a series split across baselines shows each share
+export const describeBaselines = (usages: BaselineUsage[]): string => {
+  if (usages.length === 0) return 'No data';
+  if (usages.length === 1) return formatBaseline(usages[0].baseline);
+  const total = usages.reduce((sum, u) => sum + u.rows, 0);
+  return usages.map(u => `${formatBaseline(u.baseline)} ${Math.round((u.rows / total) * 100)}%`).join(' · ');
+};
+
+export const getBaselineTypes = (data: MovementDataset): BaselineTypeSummary[] => {
+  const rowsByCode = new Float64Array(data.baselines.length);
+  const countriesByCode = data.baselines.map(() => new Set<number>());
+  for (let i = 0; i < data.rowCount; i++) {
+    rowsByCode[data.baseline[i]]++;
+    countriesByCode[data.baseline[i]].add(data.country[i]);
+  }
+
+  const summaries = new Map<string, { rows: number; countries: Set<number> }>();
+  data.baselines.forEach((b, code) => {
+    if (rowsByCode[code] === 0) return;
+    const summary = summaries.get(b.baseline_type) ?? { rows: 0, countries: new Set<number>() };
+    summary.rows += rowsByCode[code];
+    countriesByCode[code].forEach(c => summary.countries.add(c));
+    summaries.set(b.baseline_type, summary);
+  });
+  return Array.from(summaries, ([type, s]) => ({ type, rows: s.rows, countries: s.countries.size }))
+    .sort((a, b) => b.rows - a.rows);
+};
+
+// The baselines of the rows behind one series in the range: a region's own rows, or every row of the country.
+// Rows with neither metric are skipped, so rows blanked by filterByBaselineType do not count as a baseline.
+export const getSeriesBaselines = (
+  data: MovementDataset,
+  country: string,
+  region: string,
+  range?: DateRange | null
+): BaselineUsage[] => {
+  let polygonIdx: number[];
+  if (region === WHOLE_COUNTRY_OPTION) {
+    polygonIdx = getCountryPolygons(data, country);
+  } else {
+    const p = findRegionPolygon(data, country, region);
+    polygonIdx = p === undefined ? [] : [p];
+  }
+
+  const [loCode, hiCode] = getDateCodeRange(data, range);
+  const rowsByCode = new Float64Array(data.baselines.length);
+  polygonIdx.forEach(p => {
+    const polygon = data.polygons[p];
+    for (let i = polygon.rowStart; i < polygon.rowEnd; i++) {
+      if (data.date[i] < loCode || data.date[i] > hiCode) continue;
+      if (isNaN(data.mobility[i]) && isNaN(data.stay[i])) continue;
+      rowsByCode[data.baseline[i]]++;
+    }
+  });
+
+  // Codes can repeat an entry after a merge, so usages are summed by name and type
+  const usages = new Map<string, BaselineUsage>();
+  rowsByCode.forEach((rows, code) => {
+    if (rows === 0) return;
+    const baseline = data.baselines[code];
+    const usage = usages.get(baselineId(baseline));
+    if (usage) usage.rows += rows;
+    else usages.set(baselineId(baseline), { baseline, rows });
+  });
+  return Array.from(usages.values()).sort((a, b) => b.rows - a.rows);
+};
+
+// The distinct baselines across the series compared on one chart; more than one means their levels
+// are measured against different reference periods and should not be read side by side
+export const findMixedBaselines = (series: BaselineUsage[][]): BaselineEntry[] => {
+  const distinct = new Map<string, BaselineEntry>();
+  series.forEach(usages => usages.forEach(u => distinct.set(baselineId(u.baseline), u.baseline)));
+  return distinct.size > 1 ? Array.from(distinct.values()) : [];
+};
+
+// A view of the dataset keeping only rows measured against one baseline type. Other rows read as
+// missing, and polygons with no row of the type are dropped from their country, so region lists,
+// averages and coverage all describe the filtered data.
+export const filterByBaselineType = (data: MovementDataset, type: string): MovementDataset => {
+  const keep = data.baselines.map(b => b.baseline_type === type);
+  const mobility = new Float32Array(data.rowCount);
+  const stay = new Float32Array(data.rowCount);
+  const keptPolygons = new Uint8Array(data.polygons.length);
+  for (let i = 0; i < data.rowCount; i++) {
+    if (keep[data.baseline[i]]) {
+      mobility[i] = data.mobility[i];
+      stay[i] = data.stay[i];
+      keptPolygons[data.polygon[i]] = 1;
+    } else {
+      mobility[i] = NaN;
+      stay[i] = NaN;
+    }
+  }
+  return {
+    ...data,
+    mobility,
+    stay,
+    polygonsByCountry: data.polygonsByCountry.map(polygonIdx => polygonIdx.filter(p => keptPolygons[p])),
+  };
+};
@@ -0,0 +1,30 @@
+import { MovementMetric } from '../types';
+
+export const NO_DATA_COLOR = '#e2e8f0';
+
+// CSS gradients matching metricRgb, for legends
+export const METRIC_GRADIENTS: Record<MovementMetric, string> = {
+  mobility: 'linear-gradient(to right, #dc2626, #f8fafc, #2563eb)',
+  stay: 'linear-gradient(to right, #f5f3ff, #6d28d9)',
+};
+
+export const hexToRgb = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+
+const mix = (from: string, to: string, t: number): [number, number, number] => {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  return a.map((v, i) => Math.round(v + (b[i] - v) * t)) as [number, number, number];
+};
+
+// Mobility change diverges around 0 (red below, blue above); the stay-at-home ratio runs from 0 upwards.
+// `extent` is the value drawn at full colour.
+export const metricRgb = (value: number | null, metric: MovementMetric, extent: number): [number, number, number] => {
+  if (value === null || extent === 0) return hexToRgb(NO_DATA_COLOR);
+  const t = Math.max(-1, Math.min(1, value / extent));
+  if (metric === 'stay') return mix('#f5f3ff', '#6d28d9', Math.max(0, t));
+  return t < 0 ? mix('#f8fafc', '#dc2626', -t) : mix('#f8fafc', '#2563eb', t);
+};
+
+export const metricColor = (value: number | null, metric: MovementMetric, extent: number): string =>
+  `rgb(${metricRgb(value, metric, extent).join(',')})`;
@@ -0,0 +1,124 @@
+import { ColumnMapping, MovementRecord, SavedColumnMapping } from '../types';
+import { REQUIRED_COLUMNS } from './validationService';
+import { normalizeHeader, RawRow } from './formatService';
+
+const STORAGE_KEY = 'movement-dashboard:column-mappings';
+
+// Fields a row cannot be placed on a chart without; the rest may stay unmapped
+export const KEY_FIELDS: (keyof MovementRecord)[] = ['ds', 'country'];
+
+// Header names seen in partner extracts, compared after lower-casing and stripping punctuation
+const FIELD_ALIASES: Record<keyof MovementRecord, string[]> = {
+  ds: ['date', 'day', 'dt'],
+  country: ['country_code', 'iso3', 'iso', 'country_iso3'],
+  polygon_source: ['source', 'admin_source', 'polygon_level'],
+  polygon_id: ['gadm_id', 'region_id', 'admin_id', 'geo_id', 'id'],
+  polygon_name: ['region', 'region_name', 'admin_name', 'gadm_name', 'name'],
+  all_day_bing_tiles_visited_relative_change: ['mobility_change', 'relative_change', 'tiles_visited_change', 'mobility'],
+  all_day_ratio_single_tile_users: ['stay_put', 'stay_put_ratio', 'single_tile_ratio', 'ratio_single_tile_users', 'stay_home'],
+  baseline_name: ['baseline'],
+  baseline_type: [],
+};
+
+// A file only needs the mapping step when it lacks one of the schema's column names
+export const needsColumnMapping = (columns: string[]): boolean =>
+  REQUIRED_COLUMNS.some(c => !columns.includes(c));
+
+// Exact names first, then known aliases; a source column is never suggested for two fields
+export const suggestColumnMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = columns.map(normalizeHeader);
+
+  REQUIRED_COLUMNS.forEach(field => {
+    if (columns.includes(field)) {
+      mapping[field] = field;
+      used.add(field);
+    }
+  });
+
+  REQUIRED_COLUMNS.forEach(field => {
+    if (mapping[field]) return;
+    const candidates = [field, ...FIELD_ALIASES[field]];
+    const index = normalized.findIndex((n, i) => !used.has(columns[i]) && candidates.includes(n));
+    if (index !== -1) {
+      mapping[field] = columns[index];
+      used.add(columns[index]);
+    }
+  });
+
+  return mapping;
+};
+
+// Source columns claimed by more than one field; a header can only be renamed one way
+export const findDuplicateSources = (mapping: ColumnMapping): string[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  Object.values(mapping).forEach(source => {
+    if (!source) return;
+    if (seen.has(source)) duplicates.add(source);
+    seen.add(source);
+  });
+  return Array.from(duplicates);
+};
+
+// Renames a header to the schema's field names. An unmapped column that happens to share a
+// field's name is suffixed so it cannot shadow the column the user chose for that field.
+export const renameColumns = (columns: string[], mapping: ColumnMapping): string[] => {
+  const fieldBySource = new Map<string, string>();
+  Object.entries(mapping).forEach(([field, source]) => {
+    if (source) fieldBySource.set(source, field);
+  });
+  const claimed = new Set(fieldBySource.values());
+
+  return columns.map(c => {
+    const field = fieldBySource.get(c);
+    if (field) return field;
+    return claimed.has(c) ? `${c} (unmapped)` : c;
+  });
+};
+
+// For formats read as objects (JSON, Parquet) the rows themselves are rewritten instead of the header
+export const createRowRemapper = (mapping: ColumnMapping) => {
+  const entries = Object.entries(mapping).filter(([, source]) => source) as [string, string][];
+  return (row: RawRow): RawRow => {
+    const out: RawRow = {};
+    for (let i = 0; i < entries.length; i++) out[entries[i][0]] = row[entries[i][1]];
+    return out;
+  };
+};
+
+export const loadSavedMappings = (): SavedColumnMapping[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeMappings = (mappings: SavedColumnMapping[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+};
+
+// Saving under an existing name replaces that mapping
+export const saveColumnMapping = (name: string, mapping: ColumnMapping): SavedColumnMapping[] => {
+  const saved = [
+    { name, mapping, savedAt: Date.now() },
+    ...loadSavedMappings().filter(m => m.name !== name),
+  ];
+  storeMappings(saved);
+  return saved;
+};
+
+export const deleteSavedMapping = (name: string): SavedColumnMapping[] => {
+  const saved = loadSavedMappings().filter(m => m.name !== name);
+  storeMappings(saved);
+  return saved;
+};
+
+// The most recently saved mapping whose source columns all exist in this header
+export const findSavedMapping = (columns: string[], saved = loadSavedMappings()): SavedColumnMapping | null =>
+  saved
+    .filter(m => KEY_FIELDS.every(f => m.mapping[f]) && Object.values(m.mapping).every(source => !source || columns.includes(source)))
+    .sort((a, b) => b.savedAt - a.savedAt)[0] ?? null;
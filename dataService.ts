@@ -1,33 +1,55 @@
-import { tsvParse } from 'd3-dsv';
-import { MovementRecord } from '../types';
-
-export const parseMovementData = (text: string): MovementRecord[] => {
-  // Use d3-dsv to parse tab-separated values
-  const parsed = tsvParse(text, (d) => {
-    // Explicitly convert types
-    return {
-      ds: d.ds || '',
-      country: d.country || '',
-      polygon_source: d.polygon_source || '',
-      polygon_id: d.polygon_id || '',
-      polygon_name: d.polygon_name || '',
-      all_day_bing_tiles_visited_relative_change: d.all_day_bing_tiles_visited_relative_change ? parseFloat(d.all_day_bing_tiles_visited_relative_change) : 0,
-      all_day_ratio_single_tile_users: d.all_day_ratio_single_tile_users ? parseFloat(d.all_day_ratio_single_tile_users) : 0,
-      baseline_name: d.baseline_name || '',
-      baseline_type: d.baseline_type || '',
-    };
-  });
+// Imported by full URL because the parser worker, which has no importmap, runs this module too
+import { dsvFormat } from 'https://aistudiocdn.com/d3-dsv@^3.0.1';
+import { MovementDataset, MovementRecord, RegionEntry } from '../types';
+import { getCountryRegions } from './movementDataset';
+import { isNumeric, RowValidator } from './validationService';
+import { RawRow } from './formatService';
+
+// Missing or non-numeric values become null so aggregates can skip them rather than count a 0
+const toMetric = (value: string | undefined): number | null => (value && isNumeric(value) ? parseFloat(value) : null);
+
+// Shared by every input format, so CSV, JSON and Parquet rows go through exactly the same checks as TSV
+export const normalizeMovementRow = (d: RawRow, validator?: RowValidator): MovementRecord | null => {
+  // Rows rejected by the validator are left out
+  if (validator && !validator.check(d)) return null;
+
+  // Explicitly convert types
+  return {
+    ds: d.ds || '',
+    country: d.country || '',
+    polygon_source: d.polygon_source || '',
+    polygon_id: d.polygon_id || '',
+    polygon_name: d.polygon_name || '',
+    all_day_bing_tiles_visited_relative_change: toMetric(d.all_day_bing_tiles_visited_relative_change),
+    all_day_ratio_single_tile_users: toMetric(d.all_day_ratio_single_tile_users),
+    baseline_name: d.baseline_name || '',
+    baseline_type: d.baseline_type || '',
+  };
+};
+
+export const parseMovementData = (text: string, validator?: RowValidator, delimiter = '\t'): MovementRecord[] => {
+  // Use d3-dsv to parse delimiter-separated values (tab for the official export)
+  const parsed = dsvFormat(delimiter).parse(text, (d) => normalizeMovementRow(d, validator));
 
   // Filter out any invalid rows that might have occurred due to empty lines
-  return parsed.filter(p => p.ds && p.country) as MovementRecord[];
+  return parsed.filter(p => p.ds && p.country);
+};
+
+export const parseMovementRows = (rows: RawRow[], validator?: RowValidator): MovementRecord[] => {
+  const records: MovementRecord[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const record = normalizeMovementRow(rows[i], validator);
+    if (record && record.ds && record.country) records.push(record);
+  }
+  return records;
 };
 
-export const getUniqueCountries = (data: MovementRecord[]): string[] => {
-  return Array.from(new Set(data.map((d) => d.country))).sort();
+// Countries with at least one polygon, so a filtered view does not offer countries it has emptied
+export const getUniqueCountries = (data: MovementDataset): string[] => {
+  return data.countries.filter((_, c) => data.polygonsByCountry[c].length > 0);
 };
 
-export const getRegionsByCountry = (data: MovementRecord[], country: string): string[] => {
-  return Array.from(
-    new Set(data.filter((d) => d.country === country).map((d) => d.polygon_name))
-  ).sort();
+// Regions sorted by their label for the pickers
+export const getRegionsByCountry = (data: MovementDataset, country: string): RegionEntry[] => {
+  return getCountryRegions(data, country).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
 };
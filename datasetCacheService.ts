@@ -0,0 +1,174 @@
+import { CachedDatasetEntry, ColumnMapping, MovementDataset, ParseReport, ValidationMode } from '../types';
+
+// Parsed datasets are kept in IndexedDB so a reload or a new session can reopen them without
+// reading the source file again. Listing entries and the (large) datasets live in separate
+// stores so the recent list can be shown without deserialising every cached column.
+
+const DB_NAME = 'movement-dashboard';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const DATASET_STORE = 'datasets';
+
+// Least recently opened datasets are evicted beyond this many
+export const MAX_CACHED_DATASETS = 8;
+
+// The file is hashed in slices of this size so it is never held in memory whole
+const HASH_CHUNK_BYTES = 8 * 1024 * 1024;
+const DIGEST_BYTES = 32;
+
+interface CachedDataset {
+  key: string;
+  dataset: MovementDataset;
+  report: ParseReport;
+}
+
+export interface CacheKey {
+  key: string;
+  hash: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) db.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(DATASET_STORE)) db.createObjectStore(DATASET_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+export interface HashOptions {
+  signal?: AbortSignal;
+  onProgress?: (bytesHashed: number) => void;
+}
+
+// Every byte counts towards the fingerprint, so an edit anywhere in the file misses the cache.
+// crypto.subtle.digest is one-shot, so each slice is hashed and the hash covers the slice digests in order.
+// The signal is checked between slices, so a large file can be cancelled while it is being hashed.
+export const hashFile = async (file: File, { signal, onProgress }: HashOptions = {}): Promise<string> => {
+  const chunkCount = Math.ceil(file.size / HASH_CHUNK_BYTES);
+  const digests = new Uint8Array(chunkCount * DIGEST_BYTES);
+  for (let i = 0; i < chunkCount; i++) {
+    signal?.throwIfAborted();
+    const chunk = await file.slice(i * HASH_CHUNK_BYTES, (i + 1) * HASH_CHUNK_BYTES).arrayBuffer();
+    digests.set(new Uint8Array(await crypto.subtle.digest('SHA-256', chunk)), i * DIGEST_BYTES);
+    onProgress?.(Math.min(file.size, (i + 1) * HASH_CHUNK_BYTES));
+  }
+  signal?.throwIfAborted();
+  return toHex(await crypto.subtle.digest('SHA-256', digests));
+};
+
+// The same file parsed in strict and lenient mode yields different datasets, so the mode is part of the key
+export const getCacheKey = async (file: File, mode: ValidationMode, options?: HashOptions): Promise<CacheKey> => {
+  const hash = await hashFile(file, options);
+  return { key: `${file.name}|${file.size}|${hash}|${mode}`, hash };
+};
+
+// A file read through a column mapping is cached under that mapping too, so a corrected mapping parses
+// the file again instead of reopening the dataset built with the old one. Fields are sorted for a stable key.
+export const withColumnMapping = (cacheKey: CacheKey, mapping: ColumnMapping): CacheKey => {
+  const fields = (Object.keys(mapping) as (keyof ColumnMapping)[]).filter(f => mapping[f]).sort();
+  const serialized = fields.map(f => `${encodeURIComponent(f)}=${encodeURIComponent(mapping[f]!)}`).join('&');
+  return { ...cacheKey, key: `${cacheKey.key}|${serialized}` };
+};
+
+export const estimateDatasetBytes = (dataset: MovementDataset): number =>
+  dataset.date.byteLength +
+  dataset.country.byteLength +
+  dataset.polygon.byteLength +
+  dataset.baseline.byteLength +
+  dataset.mobility.byteLength +
+  dataset.stay.byteLength;
+
+// Most recently opened first
+export const listCachedDatasets = async (): Promise<CachedDatasetEntry[]> => {
+  const db = await openDatabase();
+  const entries = await requestResult(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll() as IDBRequest<CachedDatasetEntry[]>);
+  return entries.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+};
+
+export const loadCachedDataset = async (key: string): Promise<(CachedDataset & { entry: CachedDatasetEntry }) | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRY_STORE, DATASET_STORE], 'readwrite');
+  const entry = await requestResult(tx.objectStore(ENTRY_STORE).get(key) as IDBRequest<CachedDatasetEntry | undefined>);
+  const cached = await requestResult(tx.objectStore(DATASET_STORE).get(key) as IDBRequest<CachedDataset | undefined>);
+  if (!entry || !cached) return null;
+
+  const opened = { ...entry, lastOpenedAt: Date.now() };
+  tx.objectStore(ENTRY_STORE).put(opened);
+  await transactionDone(tx);
+  return { ...cached, entry: opened };
+};
+
+export const evictCachedDataset = async (key: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRY_STORE, DATASET_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).delete(key);
+  tx.objectStore(DATASET_STORE).delete(key);
+  await transactionDone(tx);
+};
+
+export const clearDatasetCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRY_STORE, DATASET_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).clear();
+  tx.objectStore(DATASET_STORE).clear();
+  await transactionDone(tx);
+};
+
+export const saveCachedDataset = async (
+  file: { name: string; size: number },
+  { key, hash }: CacheKey,
+  dataset: MovementDataset,
+  report: ParseReport
+): Promise<void> => {
+  const now = Date.now();
+  const entry: CachedDatasetEntry = {
+    key,
+    hash,
+    fileName: file.name,
+    fileSize: file.size,
+    mode: report.mode,
+    rowCount: dataset.rowCount,
+    byteSize: estimateDatasetBytes(dataset),
+    dateSpan: dataset.dates.length > 0 ? { start: dataset.dates[0], end: dataset.dates[dataset.dates.length - 1] } : null,
+    cachedAt: now,
+    lastOpenedAt: now,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRY_STORE, DATASET_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).put(entry);
+  tx.objectStore(DATASET_STORE).put({ key, dataset, report } as CachedDataset);
+  await transactionDone(tx);
+
+  const stale = (await listCachedDatasets()).slice(MAX_CACHED_DATASETS);
+  for (const old of stale) await evictCachedDataset(old.key);
+};
@@ -0,0 +1,41 @@
+import { DateRange, MovementDataset } from '../types';
+import { addDays } from './aggregationService';
+
+export interface DateRangePreset {
+  id: string;
+  label: string;
+  // Resolves the preset against the dataset's first and last day; null when it does not overlap the data
+  resolve: (extent: DateRange) => DateRange | null;
+}
+
+const fixedWindow = (start: string, end: string) => (extent: DateRange): DateRange | null =>
+  clampDateRange({ start, end }, extent);
+
+const trailingDays = (days: number) => (extent: DateRange): DateRange =>
+  clampDateRange({ start: addDays(extent.end, -(days - 1)), end: extent.end }, extent)!;
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = [
+  { id: 'first-lockdown', label: 'First lockdown', resolve: fixedWindow('2020-03-01', '2020-05-31') },
+  { id: 'summer-2020', label: 'Summer 2020', resolve: fixedWindow('2020-06-01', '2020-08-31') },
+  { id: 'second-wave', label: 'Second wave', resolve: fixedWindow('2020-10-01', '2021-01-31') },
+  { id: 'last-90', label: 'Last 90 days', resolve: trailingDays(90) },
+  { id: 'last-30', label: 'Last 30 days', resolve: trailingDays(30) },
+];
+
+export const getDatasetExtent = (data: MovementDataset): DateRange | null =>
+  data.dates.length > 0 ? { start: data.dates[0], end: data.dates[data.dates.length - 1] } : null;
+
+// Trims a range to the data; null when the two do not overlap
+export const clampDateRange = (range: DateRange, extent: DateRange): DateRange | null => {
+  const start = range.start < extent.start ? extent.start : range.start;
+  const end = range.end > extent.end ? extent.end : range.end;
+  return start <= end ? { start, end } : null;
+};
+
+// A range that spans the whole dataset is stored as null so it keeps following newly added files
+export const normalizeDateRange = (range: DateRange | null, extent: DateRange | null): DateRange | null => {
+  if (!range || !extent) return null;
+  const clamped = clampDateRange(range, extent);
+  if (!clamped || (clamped.start === extent.start && clamped.end === extent.end)) return null;
+  return clamped;
+};
@@ -0,0 +1,123 @@
+import { formatDelimitedRows } from './formatService';
+
+// Title and descriptive lines (selection, date range, weighting) written into every exported file
+export interface ExportMeta {
+  title: string;
+  details: string[];
+}
+
+export interface CsvTable {
+  header: string[];
+  rows: (string | number | null | undefined)[][];
+}
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+
+// Hands generated content to the browser as a file download
+export const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// "Mobility Trend" + "ITA" → "mobility-trend-ita.png"
+export const exportFileName = (parts: string[], extension: string): string =>
+  `${parts.join(' ').toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 80).replace(/^-|-$/g, '') || 'export'}.${extension}`;
+
+// The metadata leads the file as # comment lines, then a header row and the data
+export const buildCsv = (meta: ExportMeta, { header, rows }: CsvTable): string =>
+  [
+    `# ${meta.title}`,
+    ...meta.details.map(d => `# ${d}`),
+    formatDelimitedRows([header, ...rows.map(r => r.map(v => (v === null || v === undefined ? '' : String(v))))], ','),
+  ].join('\n');
+
+const svgElement = (name: string, attributes: Record<string, string | number>, text?: string) => {
+  const el = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([k, v]) => el.setAttribute(k, String(v)));
+  if (text !== undefined) el.textContent = text;
+  return el;
+};
+
+// Copies the Recharts surface inside a chart container into a standalone SVG, with the title, the metadata
+// lines and a legend drawn above it (Recharts renders its legend as HTML, outside the SVG).
+export const buildChartSvg = (
+  container: HTMLElement,
+  meta: ExportMeta,
+  legend: LegendEntry[]
+): { svg: string; width: number; height: number } | null => {
+  const surface = container.querySelector('svg.recharts-surface') as SVGSVGElement | null;
+  if (!surface) return null;
+  const { width: chartWidth, height: chartHeight } = surface.getBoundingClientRect();
+  const padding = 16;
+  const width = Math.round(chartWidth) + padding * 2;
+
+  const header = svgElement('g', {});
+  let y = padding + 16;
+  header.appendChild(svgElement('text', { x: padding, y, 'font-size': 16, 'font-weight': 700, fill: '#1e293b' }, meta.title));
+  meta.details.forEach(line => {
+    y += 16;
+    header.appendChild(svgElement('text', { x: padding, y, 'font-size': 11, fill: '#64748b' }, line));
+  });
+
+  // Legend entries flow left to right and wrap; the label width is estimated from its length
+  let x = padding;
+  if (legend.length > 0) y += 22;
+  legend.forEach(entry => {
+    const entryWidth = 24 + entry.label.length * 6.5;
+    if (x > padding && x + entryWidth > width - padding) {
+      x = padding;
+      y += 18;
+    }
+    header.appendChild(svgElement('circle', { cx: x + 5, cy: y - 4, r: 5, fill: entry.color }));
+    header.appendChild(svgElement('text', { x: x + 14, y, 'font-size': 11, fill: '#334155' }, entry.label));
+    x += entryWidth;
+  });
+
+  const chartTop = y + 12;
+  const height = Math.round(chartTop + chartHeight + padding);
+
+  const root = svgElement('svg', { width, height, viewBox: `0 0 ${width} ${height}`, 'font-family': FONT_FAMILY });
+  root.appendChild(svgElement('rect', { x: 0, y: 0, width, height, fill: '#ffffff' }));
+  root.appendChild(header);
+
+  const chart = surface.cloneNode(true) as SVGSVGElement;
+  chart.setAttribute('x', String(padding));
+  chart.setAttribute('y', String(chartTop));
+  chart.setAttribute('width', String(Math.round(chartWidth)));
+  chart.setAttribute('height', String(Math.round(chartHeight)));
+  root.appendChild(chart);
+
+  return { svg: new XMLSerializer().serializeToString(root), width, height };
+};
+
+// Rasterises an SVG at the given scale (2 for sharp images on high-density screens and in documents)
+export const svgToPngBlob = (svg: string, width: number, height: number, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available in this browser.'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG.'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not render the chart image.'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
@@ -0,0 +1,240 @@
+// This module runs in the parser worker, which does not see the page's importmap, so its libraries are
+// imported by the same full URLs the importmap resolves them to (see workerModules.d.ts)
+import { dsvFormat } from 'https://aistudiocdn.com/d3-dsv@^3.0.1';
+import { parquetMetadata, parquetMetadataAsync, parquetReadObjects } from 'https://aistudiocdn.com/hyparquet@^1.31.2';
+import type { AsyncBuffer } from 'hyparquet';
+import { InputFormatId } from '../types';
+
+// A source row before normalisation: column name to raw text, as d3-dsv produces for delimited files
+export type RawRow = Record<string, string | undefined>;
+
+// What a preview can read from: the decoded stream, and the file itself when it is not inside an archive
+export interface PreviewSource {
+  chunks: AsyncIterable<Uint8Array>;
+  file?: Blob;
+}
+
+export interface InputFormat {
+  id: InputFormatId;
+  label: string;
+  extensions: RegExp;
+  // Formats with a delimiter are streamed line by line; the others are read whole and handed to readRows
+  delimiter?: string;
+  // onRows may return false to stop reading, e.g. once a preview has enough rows
+  readRows?: (bytes: Uint8Array, onRows: (rows: RawRow[], columns: string[]) => boolean | void) => Promise<void>;
+  // Reads the first rows without loading the whole document, for the column mapping preview
+  readPreview?: (source: PreviewSource, limit: number) => Promise<{ rows: RawRow[]; columns: string[] }>;
+  sniff: (head: Uint8Array, headText: string) => boolean;
+}
+
+// JSON numbers, nulls and parquet dates/bigints all become the same text a TSV cell would hold
+const toRawValue = (value: unknown): string | undefined => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+};
+
+const toRawRow = (obj: Record<string, unknown>): RawRow => {
+  const row: RawRow = {};
+  for (const key of Object.keys(obj)) row[key] = toRawValue(obj[key]);
+  return row;
+};
+
+const firstLine = (text: string) => text.slice(0, text.search(/\r?\n|$/));
+
+const columnsOf = (objects: Record<string, unknown>[]) =>
+  Array.from(new Set(objects.slice(0, 100).flatMap(o => Object.keys(o ?? {}))));
+
+// Pulls the first records out of the start of a JSON array or JSON Lines document, reading chunks only until
+// enough records are complete. Array elements are found by tracking nesting depth outside of strings.
+const readJsonHead = async (chunks: AsyncIterable<Uint8Array>, limit: number): Promise<Record<string, unknown>[]> => {
+  const decoder = new TextDecoder('utf-8');
+  const objects: Record<string, unknown>[] = [];
+  let text = '';
+  let isArray: boolean | null = null;
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let start = -1;
+
+  const scan = () => {
+    if (isArray === null) {
+      const first = text.trimStart()[0];
+      if (first === undefined) return;
+      isArray = first === '[';
+    }
+
+    if (!isArray) {
+      const lines = text.split(/\r?\n/).filter(line => line.trim());
+      objects.length = 0;
+      // The last line may still be incomplete until another line follows it
+      lines.slice(0, lines.length - 1).slice(0, limit).forEach(line => objects.push(JSON.parse(line)));
+      return;
+    }
+
+    for (; position < text.length && objects.length < limit; position++) {
+      const ch = text[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === '[' || ch === '{') {
+        if (++depth === 2) start = position;
+      } else if (ch === ']' || ch === '}') {
+        if (depth-- === 2) objects.push(JSON.parse(text.slice(start, position + 1)));
+      }
+    }
+  };
+
+  for await (const chunk of chunks) {
+    text += decoder.decode(chunk, { stream: true });
+    scan();
+    if (objects.length >= limit) return objects;
+  }
+
+  // The whole document was read: a short JSON Lines file's last line is complete after all
+  text += decoder.decode();
+  if (isArray === false) {
+    return text.split(/\r?\n/).filter(line => line.trim()).slice(0, limit).map(line => JSON.parse(line));
+  }
+  scan();
+  return objects;
+};
+
+const jsonFormat: InputFormat = {
+  id: 'json',
+  label: 'JSON',
+  extensions: /\.(json|jsonl|ndjson)$/i,
+  sniff: (_head, headText) => /^\s*[[{]/.test(headText),
+  readRows: async (bytes, onRows) => {
+    const text = new TextDecoder('utf-8').decode(bytes);
+    const trimmed = text.trimStart();
+
+    // Either a JSON array of records or JSON Lines (one record per line)
+    const objects: Record<string, unknown>[] = trimmed.startsWith('[')
+      ? JSON.parse(trimmed)
+      : trimmed.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+
+    if (!Array.isArray(objects)) throw new Error('Expected a JSON array of movement records.');
+    onRows(objects.map(o => toRawRow(o ?? {})), columnsOf(objects));
+  },
+  readPreview: async ({ chunks }, limit) => {
+    const objects = await readJsonHead(chunks, limit);
+    return { rows: objects.map(o => toRawRow(o ?? {})), columns: columnsOf(objects) };
+  },
+};
+
+const concatChunks = async (chunks: AsyncIterable<Uint8Array>): Promise<ArrayBuffer> => {
+  const buffered: Uint8Array[] = [];
+  for await (const chunk of chunks) buffered.push(chunk);
+  return new Blob(buffered as BlobPart[]).arrayBuffer();
+};
+
+const parquetFormat: InputFormat = {
+  id: 'parquet',
+  label: 'Parquet',
+  extensions: /\.parquet$/i,
+  sniff: (head) => head[0] === 0x50 && head[1] === 0x41 && head[2] === 0x52 && head[3] === 0x31, // "PAR1"
+  readRows: async (bytes, onRows) => {
+    const file = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    const metadata = parquetMetadata(file);
+    const columns = metadata.schema.slice(1).map(s => s.name);
+
+    // Read one row group at a time so progress is reported and rows are normalised as they arrive
+    let rowStart = 0;
+    for (const group of metadata.row_groups) {
+      const rowEnd = rowStart + Number(group.num_rows);
+      const objects = await parquetReadObjects({ file, metadata, rowStart, rowEnd });
+      if (onRows(objects.map(toRawRow), columns) === false) return;
+      rowStart = rowEnd;
+    }
+  },
+  readPreview: async ({ chunks, file }, limit) => {
+    // A file on disk is read by range: the footer, then the column chunks of the first row group only.
+    // Inside an archive there is no random access, so the entry is inflated whole.
+    const buffer: AsyncBuffer | ArrayBuffer = file
+      ? { byteLength: file.size, slice: (start, end) => file.slice(start, end).arrayBuffer() }
+      : await concatChunks(chunks);
+    const metadata = buffer instanceof ArrayBuffer ? parquetMetadata(buffer) : await parquetMetadataAsync(buffer);
+    const columns = metadata.schema.slice(1).map(s => s.name);
+    const rowEnd = Math.min(limit, Number(metadata.row_groups[0]?.num_rows ?? 0));
+    const objects = rowEnd > 0 ? await parquetReadObjects({ file: buffer, metadata, rowStart: 0, rowEnd }) : [];
+    return { rows: objects.map(toRawRow), columns };
+  },
+};
+
+const tsvFormat: InputFormat = {
+  id: 'tsv',
+  label: 'Tab-separated',
+  extensions: /\.(tsv|txt)$/i,
+  delimiter: '\t',
+  sniff: (_head, headText) => firstLine(headText).includes('\t'),
+};
+
+const csvFormat: InputFormat = {
+  id: 'csv',
+  label: 'Comma-separated',
+  extensions: /\.csv$/i,
+  delimiter: ',',
+  sniff: (_head, headText) => firstLine(headText).includes(','),
+};
+
+// Sniffing order matters: binary signatures first, then structure, then delimiters
+export const INPUT_FORMATS: InputFormat[] = [parquetFormat, jsonFormat, tsvFormat, csvFormat];
+
+// Picks a format from the file (or archive entry) name, falling back to the content of its first bytes
+export const detectInputFormat = (fileName: string, head: Uint8Array): InputFormat => {
+  const byExtension = INPUT_FORMATS.find(f => f.extensions.test(fileName));
+  if (byExtension) return byExtension;
+
+  const headText = new TextDecoder('utf-8').decode(head.subarray(0, 4096));
+  return INPUT_FORMATS.find(f => f.sniff(head, headText)) ?? tsvFormat;
+};
+
+export const parseDelimitedRows = (text: string, delimiter: string): string[][] =>
+  dsvFormat(delimiter).parseRows(text);
+
+export const parseHeaderColumns = (header: string, delimiter: string): string[] =>
+  parseDelimitedRows(header, delimiter)[0] ?? [];
+
+export const formatHeaderColumns = (columns: string[], delimiter: string): string =>
+  dsvFormat(delimiter).formatRows([columns]);
+
+export const formatDelimitedRows = (rows: string[][], delimiter: string): string =>
+  dsvFormat(delimiter).formatRows(rows);
+
+// Lower-cased with runs of punctuation and spaces turned into single underscores, so header variants compare equal
+export const normalizeHeader = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+// The first column whose name, lower-cased and stripped of punctuation, is one of the candidates (in candidate order)
+export const findColumn = (columns: string[], candidates: string[]): string | undefined => {
+  const normalized = columns.map(normalizeHeader);
+  for (const candidate of candidates) {
+    const index = normalized.indexOf(candidate);
+    if (index !== -1) return columns[index];
+  }
+  return undefined;
+};
+
+// Reads a small auxiliary table (populations, events) of any supported format on the main thread
+export const readTableFile = async (file: File): Promise<{ rows: RawRow[]; columns: string[] }> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectInputFormat(file.name, bytes.subarray(0, 4096));
+
+  if (format.delimiter) {
+    const [columns = [], ...cells] = parseDelimitedRows(new TextDecoder('utf-8').decode(bytes), format.delimiter);
+    const rows = cells.map(values => Object.fromEntries(columns.map((c, i) => [c, values[i]])) as RawRow);
+    return { rows, columns };
+  }
+
+  const rows: RawRow[] = [];
+  let columns: string[] = [];
+  await format.readRows!(bytes, (chunk, chunkColumns) => {
+    rows.push(...chunk);
+    columns = chunkColumns;
+  });
+  return { rows, columns };
+};
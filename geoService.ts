@@ -0,0 +1,87 @@
+import { geoArea, geoMercator, geoPath } from 'd3-geo';
+import { feature } from 'topojson-client';
+import type { Feature, FeatureCollection, Polygon } from 'geojson';
+import type { Topology } from 'topojson-specification';
+
+// User-supplied region boundaries (GADM level 1/2 GeoJSON or TopoJSON) joined to the data on polygon_id
+export interface BoundaryLayer {
+  name: string;
+  features: Feature[];
+  joinKey: string; // property holding the polygon_id, or 'id' for the feature id itself
+  matched: number; // features whose key is a polygon_id in the loaded data
+}
+
+// d3-geo expects clockwise exterior rings while RFC 7946 GeoJSON uses counter-clockwise ones; a
+// polygon read the wrong way round covers the rest of the globe, so its rings are reversed
+const rewindPolygon = (coordinates: Polygon['coordinates']): Polygon['coordinates'] =>
+  geoArea({ type: 'Polygon', coordinates }) > 2 * Math.PI
+    ? coordinates.map(ring => [...ring].reverse())
+    : coordinates;
+
+const rewindFeature = (f: Feature): Feature => {
+  const { geometry } = f;
+  if (geometry?.type === 'Polygon') {
+    return { ...f, geometry: { ...geometry, coordinates: rewindPolygon(geometry.coordinates) } };
+  }
+  if (geometry?.type === 'MultiPolygon') {
+    return { ...f, geometry: { ...geometry, coordinates: geometry.coordinates.map(rewindPolygon) } };
+  }
+  return f;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isTopology = (json: unknown): json is Topology =>
+  isObject(json) && json.type === 'Topology' && isObject(json.objects) && Array.isArray(json.arcs);
+
+const isFeatureCollection = (json: unknown): json is FeatureCollection =>
+  isObject(json) && json.type === 'FeatureCollection' && Array.isArray(json.features);
+
+const isFeature = (json: unknown): json is Feature => isObject(json) && json.type === 'Feature';
+
+const readFeatures = (json: unknown): Feature[] => {
+  if (isTopology(json)) {
+    // Every object in the topology becomes features; GADM exports usually hold just one
+    return Object.values(json.objects).flatMap(object => {
+      const converted = feature(json, object);
+      return converted.type === 'FeatureCollection' ? converted.features : [converted];
+    });
+  }
+  if (isFeatureCollection(json)) return json.features.filter(isFeature);
+  if (isFeature(json)) return [json];
+  throw new Error('Expected a GeoJSON FeatureCollection or a TopoJSON topology.');
+};
+
+export const getFeatureKey = (f: Feature, joinKey: string): string => {
+  const value = joinKey === 'id' ? f.id : f.properties?.[joinKey];
+  return value === undefined || value === null ? '' : String(value);
+};
+
+// GADM names the id column GID_1 or GID_2 depending on the level, and other sources use their own
+// names, so the join key is whichever property matches the most polygon_ids
+const detectJoinKey = (features: Feature[], polygonIds: Set<string>): { joinKey: string; matched: number } | null => {
+  const candidates = new Set<string>(['id']);
+  features.slice(0, 50).forEach(f => Object.keys(f.properties ?? {}).forEach(k => candidates.add(k)));
+
+  let best: { joinKey: string; matched: number } | null = null;
+  candidates.forEach(joinKey => {
+    const matched = features.reduce((n, f) => n + (polygonIds.has(getFeatureKey(f, joinKey)) ? 1 : 0), 0);
+    if (matched > 0 && (!best || matched > best.matched)) best = { joinKey, matched };
+  });
+  return best;
+};
+
+export const parseBoundaries = async (file: File, polygonIds: Set<string>): Promise<BoundaryLayer> => {
+  const features = readFeatures(JSON.parse(await file.text())).map(rewindFeature);
+  const join = detectJoinKey(features, polygonIds);
+  if (!join) throw new Error('None of the boundaries share an id with the polygon_id values in the loaded data.');
+  return { name: file.name, features, ...join };
+};
+
+// SVG path strings for the given features, projected to fill a width × height box
+export const projectFeatures = (features: Feature[], width: number, height: number): string[] => {
+  if (features.length === 0) return [];
+  const collection: FeatureCollection = { type: 'FeatureCollection', features };
+  const path = geoPath(geoMercator().fitSize([width, height], collection));
+  return features.map(f => path(f) ?? '');
+};
@@ -0,0 +1,100 @@
+import {
+  ColumnMapping,
+  FilePreview,
+  IngestProgress,
+  MovementDataset,
+  ParseReport,
+  ParserWorkerMessage,
+  ParserWorkerRequest,
+  ValidationMode,
+} from '../types';
+
+interface StreamOptions {
+  mode?: ValidationMode;
+  mapping?: ColumnMapping;
+  onProgress?: (progress: IngestProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface StreamResult {
+  dataset: MovementDataset;
+  report: ParseReport;
+}
+
+// Runs one request on a fresh parser worker. handle returns the result once the worker is done
+// with it, or undefined to keep listening. Aborting the signal terminates the worker.
+const runParserWorker = <T>(
+  request: ParserWorkerRequest,
+  signal: AbortSignal | undefined,
+  handle: (message: ParserWorkerMessage) => T | undefined
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Parsing cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./movementParser.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException('Parsing cancelled', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (e: MessageEvent<ParserWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'error') {
+        cleanup();
+        reject(new Error(message.message));
+        return;
+      }
+      const result = handle(message);
+      if (result !== undefined) {
+        cleanup();
+        resolve(result);
+      }
+    };
+
+    worker.onerror = (e) => {
+      cleanup();
+      reject(new Error(e.message || 'Parser worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+};
+
+// Parses a Movement Range file off the main thread, resolving once every chunk has been read.
+// Aborting the signal terminates the worker and rejects with an AbortError.
+export const streamMovementFile = (
+  file: File,
+  { mode = 'lenient', mapping, onProgress, signal }: StreamOptions = {}
+): Promise<StreamResult> =>
+  runParserWorker({ type: 'parse', file, mode, mapping }, signal, (message) => {
+    switch (message.type) {
+      case 'progress':
+        onProgress?.(message.progress);
+        return undefined;
+      case 'done':
+        onProgress?.(message.progress);
+        return { dataset: message.dataset, report: message.report };
+      default:
+        return undefined;
+    }
+  });
+
+// Reads the header and first few rows, without parsing the rest of the file
+export const previewMovementFile = (file: File, signal?: AbortSignal): Promise<FilePreview> =>
+  runParserWorker({ type: 'preview', file }, signal, (message) =>
+    message.type === 'preview' ? message.preview : undefined
+  );
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
@@ -0,0 +1,342 @@
+import { MovementDataset, MovementRecord, PolygonEntry, BaselineEntry, RegionEntry } from '../types';
+import { countDuplicateRows } from './validationService';
+
+const polygonKey = (r: MovementRecord) => `${r.country}\t${r.polygon_source}\t${r.polygon_id}`;
+
+type RowColumn = Uint16Array | Uint32Array | Float32Array;
+
+// Doubles a row column once it is full, so rows can be appended without knowing the row count up front
+const ensureCapacity = <T extends RowColumn>(column: T, needed: number, create: (size: number) => T): T => {
+  if (needed <= column.length) return column;
+  const grown = create(Math.max(needed, column.length * 2));
+  grown.set(column);
+  return grown;
+};
+
+export interface MovementDatasetBuilder {
+  add: (records: MovementRecord[]) => void;
+  build: () => MovementDataset;
+}
+
+// Accumulates rows chunk by chunk into dictionary-encoded typed arrays, so no row objects outlive the
+// chunk they were parsed from. Rows are sorted into place once, when the dataset is built.
+export const createMovementDatasetBuilder = (initialRows = 1 << 16): MovementDatasetBuilder => {
+  let rowCount = 0;
+
+  // 1. Dictionary-encode the string columns in file order
+  const dateCodes = new Map<string, number>();
+  const countryCodes = new Map<string, number>();
+  const polygonCodes = new Map<string, number>();
+  const baselineCodes = new Map<string, number>();
+
+  const rawDates: string[] = [];
+  const rawCountries: string[] = [];
+  const polygons: PolygonEntry[] = [];
+  const baselines: BaselineEntry[] = [];
+
+  const size = Math.max(1, initialRows);
+  let rowDate = new Uint32Array(size);
+  let rowPolygon = new Uint32Array(size);
+  let rowBaseline = new Uint16Array(size);
+  let rowMobility = new Float32Array(size);
+  let rowStay = new Float32Array(size);
+
+  const add = (records: MovementRecord[]) => {
+    const needed = rowCount + records.length;
+    rowDate = ensureCapacity(rowDate, needed, n => new Uint32Array(n));
+    rowPolygon = ensureCapacity(rowPolygon, needed, n => new Uint32Array(n));
+    rowBaseline = ensureCapacity(rowBaseline, needed, n => new Uint16Array(n));
+    rowMobility = ensureCapacity(rowMobility, needed, n => new Float32Array(n));
+    rowStay = ensureCapacity(rowStay, needed, n => new Float32Array(n));
+
+    for (let j = 0; j < records.length; j++) {
+      const r = records[j];
+      const i = rowCount++;
+
+      let d = dateCodes.get(r.ds);
+      if (d === undefined) {
+        d = rawDates.length;
+        dateCodes.set(r.ds, d);
+        rawDates.push(r.ds);
+      }
+
+      let c = countryCodes.get(r.country);
+      if (c === undefined) {
+        c = rawCountries.length;
+        countryCodes.set(r.country, c);
+        rawCountries.push(r.country);
+      }
+
+      const pKey = polygonKey(r);
+      let p = polygonCodes.get(pKey);
+      if (p === undefined) {
+        p = polygons.length;
+        polygonCodes.set(pKey, p);
+        polygons.push({
+          country: c,
+          polygon_source: r.polygon_source,
+          polygon_id: r.polygon_id,
+          polygon_name: r.polygon_name,
+          rowStart: 0,
+          rowEnd: 0,
+        });
+      }
+
+      const bKey = `${r.baseline_name}\t${r.baseline_type}`;
+      let b = baselineCodes.get(bKey);
+      if (b === undefined) {
+        b = baselines.length;
+        baselineCodes.set(bKey, b);
+        baselines.push({ baseline_name: r.baseline_name, baseline_type: r.baseline_type });
+      }
+
+      rowDate[i] = d;
+      rowPolygon[i] = p;
+      rowBaseline[i] = b;
+      rowMobility[i] = r.all_day_bing_tiles_visited_relative_change ?? NaN;
+      rowStay[i] = r.all_day_ratio_single_tile_users ?? NaN;
+    }
+  };
+
+  const build = (): MovementDataset => {
+    // 2. Sort the date and country dictionaries so codes compare in natural order
+    const dates = [...rawDates].sort();
+    const sortedDateCodes = new Map(dates.map((ds, i) => [ds, i]));
+    const dateRemap = Uint16Array.from(rawDates, ds => sortedDateCodes.get(ds)!);
+
+    const countries = [...rawCountries].sort();
+    const sortedCountryCodes = new Map(countries.map((c, i) => [c, i]));
+    const countryRemap = rawCountries.map(c => sortedCountryCodes.get(c)!);
+    polygons.forEach(p => { p.country = countryRemap[p.country]; });
+
+    // 3. Counting sort rows by polygon, then order each polygon's rows by date
+    const offsets = new Uint32Array(polygons.length + 1);
+    for (let i = 0; i < rowCount; i++) offsets[rowPolygon[i] + 1]++;
+    for (let p = 0; p < polygons.length; p++) offsets[p + 1] += offsets[p];
+
+    const order = new Uint32Array(rowCount);
+    const cursor = offsets.slice(0, polygons.length);
+    for (let i = 0; i < rowCount; i++) order[cursor[rowPolygon[i]]++] = i;
+
+    polygons.forEach((p, idx) => {
+      p.rowStart = offsets[idx];
+      p.rowEnd = offsets[idx + 1];
+      order.subarray(p.rowStart, p.rowEnd).sort((a, b) => dateRemap[rowDate[a]] - dateRemap[rowDate[b]]);
+    });
+
+    // 4. Permute the columns into sorted order
+    const dataset: MovementDataset = {
+      rowCount,
+      dates,
+      countries,
+      polygons,
+      baselines,
+      date: new Uint16Array(rowCount),
+      country: new Uint16Array(rowCount),
+      polygon: new Uint32Array(rowCount),
+      baseline: new Uint16Array(rowCount),
+      mobility: new Float32Array(rowCount),
+      stay: new Float32Array(rowCount),
+      polygonsByCountry: countries.map(() => []),
+    };
+
+    for (let i = 0; i < rowCount; i++) {
+      const src = order[i];
+      const p = rowPolygon[src];
+      dataset.date[i] = dateRemap[rowDate[src]];
+      dataset.country[i] = polygons[p].country;
+      dataset.polygon[i] = p;
+      dataset.baseline[i] = rowBaseline[src];
+      dataset.mobility[i] = rowMobility[src];
+      dataset.stay[i] = rowStay[src];
+    }
+
+    polygons.forEach((p, idx) => dataset.polygonsByCountry[p.country].push(idx));
+
+    return dataset;
+  };
+
+  return { add, build };
+};
+
+export const buildMovementDataset = (records: MovementRecord[]): MovementDataset => {
+  const builder = createMovementDatasetBuilder(records.length);
+  builder.add(records);
+  return builder.build();
+};
+
+// Typed-array buffers to hand to postMessage so the dataset moves between threads without copying
+export const getTransferables = (dataset: MovementDataset): ArrayBuffer[] => [
+  dataset.date.buffer as ArrayBuffer,
+  dataset.country.buffer as ArrayBuffer,
+  dataset.polygon.buffer as ArrayBuffer,
+  dataset.baseline.buffer as ArrayBuffer,
+  dataset.mobility.buffer as ArrayBuffer,
+  dataset.stay.buffer as ArrayBuffer,
+];
+
+export const getCountryIndex = (dataset: MovementDataset, country: string): number =>
+  dataset.countries.indexOf(country);
+
+export const getCountryPolygons = (dataset: MovementDataset, country: string): number[] => {
+  const c = getCountryIndex(dataset, country);
+  return c === -1 ? [] : dataset.polygonsByCountry[c];
+};
+
+export const getRegionKey = (polygon: Pick<PolygonEntry, 'polygon_source' | 'polygon_id'>): string => `${polygon.polygon_source}:${polygon.polygon_id}`;
+
+// Every polygon of a country as a region, in polygon order. A name shared by several polygons, or a
+// missing one, is labelled with the polygon_id so each region can be told apart.
+export const getCountryRegions = (dataset: MovementDataset, country: string): RegionEntry[] => {
+  const polygonIdx = getCountryPolygons(dataset, country);
+  const nameCounts = new Map<string, number>();
+  polygonIdx.forEach(p => {
+    const name = dataset.polygons[p].polygon_name;
+    nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1);
+  });
+  return polygonIdx.map(p => {
+    const polygon = dataset.polygons[p];
+    const name = !polygon.polygon_name || nameCounts.get(polygon.polygon_name)! > 1
+      ? `${polygon.polygon_name || 'Unnamed'} (${polygon.polygon_id})`
+      : polygon.polygon_name;
+    return { key: getRegionKey(polygon), name, polygon: p };
+  });
+};
+
+// The polygon behind a region key, without building the country's labels
+export const findRegionPolygon = (dataset: MovementDataset, country: string, key: string): number | undefined => {
+  const separator = key.indexOf(':');
+  const source = key.slice(0, separator);
+  const id = key.slice(separator + 1);
+  return getCountryPolygons(dataset, country).find(p => dataset.polygons[p].polygon_id === id && dataset.polygons[p].polygon_source === source);
+};
+
+export const findCountryRegion = (dataset: MovementDataset, country: string, key: string): RegionEntry | undefined =>
+  getCountryRegions(dataset, country).find(r => r.key === key);
+
+// Reconstructs a single row as a record, for the few places that still want object access
+export const getRecord = (dataset: MovementDataset, row: number): MovementRecord => {
+  const polygon = dataset.polygons[dataset.polygon[row]];
+  const baseline = dataset.baselines[dataset.baseline[row]];
+  return {
+    ds: dataset.dates[dataset.date[row]],
+    country: dataset.countries[dataset.country[row]],
+    polygon_source: polygon.polygon_source,
+    polygon_id: polygon.polygon_id,
+    polygon_name: polygon.polygon_name,
+    all_day_bing_tiles_visited_relative_change: isNaN(dataset.mobility[row]) ? null : dataset.mobility[row],
+    all_day_ratio_single_tile_users: isNaN(dataset.stay[row]) ? null : dataset.stay[row],
+    baseline_name: baseline.baseline_name,
+    baseline_type: baseline.baseline_type,
+  };
+};
+
+// Merges several datasets into one. Datasets are given in priority order: when two of them hold a row
+// for the same polygon and date, the row from the earlier dataset is kept and the others are dropped.
+// Repeats within one dataset are resolved the same way, keeping the row that came first in its file,
+// so a single file with duplicates is merged too.
+export const mergeMovementDatasets = (datasets: MovementDataset[]): MovementDataset => {
+  if (datasets.length === 1 && countDuplicateRows(datasets[0]) === 0) return datasets[0];
+
+  // 1. Unified dictionaries
+  const dates = Array.from(new Set(datasets.flatMap(d => d.dates))).sort();
+  const countries = Array.from(new Set(datasets.flatMap(d => d.countries))).sort();
+  const dateCodes = new Map(dates.map((ds, i) => [ds, i]));
+  const countryCodes = new Map(countries.map((c, i) => [c, i]));
+
+  const baselines: BaselineEntry[] = [];
+  const baselineCodes = new Map<string, number>();
+  const baselineRemaps = datasets.map(d => d.baselines.map(b => {
+    const key = `${b.baseline_name}\t${b.baseline_type}`;
+    if (!baselineCodes.has(key)) {
+      baselineCodes.set(key, baselines.length);
+      baselines.push(b);
+    }
+    return baselineCodes.get(key)!;
+  }));
+  const dateRemaps = datasets.map(d => d.dates.map(ds => dateCodes.get(ds)!));
+
+  // 2. Group each source's polygons under a unified polygon entry
+  const polygons: PolygonEntry[] = [];
+  const polygonCodes = new Map<string, number>();
+  const polygonSources: { source: number; polygon: PolygonEntry }[][] = [];
+
+  datasets.forEach((d, source) => {
+    d.polygons.forEach(p => {
+      const country = d.countries[p.country];
+      const key = `${country}\t${p.polygon_source}\t${p.polygon_id}`;
+      let code = polygonCodes.get(key);
+      if (code === undefined) {
+        code = polygons.length;
+        polygonCodes.set(key, code);
+        polygons.push({ ...p, country: countryCodes.get(country)!, rowStart: 0, rowEnd: 0 });
+        polygonSources.push([]);
+      }
+      polygonSources[code].push({ source, polygon: p });
+    });
+  });
+
+  // 3. Pick one row per (polygon, date), walking sources in priority order, and write it out directly.
+  // Columns are sized for the no-overlap case and trimmed once the real row count is known.
+  const capacity = datasets.reduce((sum, d) => sum + d.rowCount, 0);
+  const date = new Uint16Array(capacity);
+  const country = new Uint16Array(capacity);
+  const polygon = new Uint32Array(capacity);
+  const baseline = new Uint16Array(capacity);
+  const mobility = new Float32Array(capacity);
+  const stay = new Float32Array(capacity);
+  const polygonsByCountry: number[][] = countries.map(() => []);
+
+  const slotSource = new Int16Array(dates.length).fill(-1);
+  const slotRow = new Uint32Array(dates.length);
+  let out = 0;
+
+  polygonSources.forEach((entries, p) => {
+    const touched: number[] = [];
+    entries.forEach(({ source, polygon: sourcePolygon }) => {
+      const d = datasets[source];
+      for (let i = sourcePolygon.rowStart; i < sourcePolygon.rowEnd; i++) {
+        const dateCode = dateRemaps[source][d.date[i]];
+        if (slotSource[dateCode] !== -1) continue;
+        slotSource[dateCode] = source;
+        slotRow[dateCode] = i;
+        touched.push(dateCode);
+      }
+    });
+    touched.sort((a, b) => a - b);
+
+    polygons[p].rowStart = out;
+    touched.forEach(dateCode => {
+      const source = slotSource[dateCode];
+      const row = slotRow[dateCode];
+      const d = datasets[source];
+      date[out] = dateCode;
+      country[out] = polygons[p].country;
+      polygon[out] = p;
+      baseline[out] = baselineRemaps[source][d.baseline[row]];
+      mobility[out] = d.mobility[row];
+      stay[out] = d.stay[row];
+      slotSource[dateCode] = -1;
+      out++;
+    });
+    polygons[p].rowEnd = out;
+    polygonsByCountry[polygons[p].country].push(p);
+  });
+
+  const merged: MovementDataset = {
+    rowCount: out,
+    dates,
+    countries,
+    polygons,
+    baselines,
+    date: date.slice(0, out),
+    country: country.slice(0, out),
+    polygon: polygon.slice(0, out),
+    baseline: baseline.slice(0, out),
+    mobility: mobility.slice(0, out),
+    stay: stay.slice(0, out),
+    polygonsByCountry,
+  };
+
+  return merged;
+};
@@ -0,0 +1,203 @@
+import { parseMovementData, parseMovementRows } from './dataService';
+import { openMovementInput } from './archiveService';
+import { createRowRemapper, renameColumns } from './columnMappingService';
+import { detectInputFormat, formatHeaderColumns, InputFormat, parseDelimitedRows, parseHeaderColumns } from './formatService';
+import { createMovementDatasetBuilder, getTransferables } from './movementDataset';
+import { countDuplicateRows, createRowValidator, RowValidator } from './validationService';
+import {
+  ColumnMapping,
+  FilePreview,
+  IngestProgress,
+  MovementRecord,
+  ParserWorkerMessage,
+  ParserWorkerRequest,
+  ValidationMode,
+} from '../types';
+
+// Parse in slices so a multi-hundred MB export never has to sit in memory as one string
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const PREVIEW_ROWS = 5;
+
+const post = (message: ParserWorkerMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const concatChunks = (chunks: Uint8Array[], total: number): Uint8Array => {
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(c => { bytes.set(c, offset); offset += c.byteLength; });
+  return bytes;
+};
+
+// Streams a delimited table, parsing complete lines in CHUNK_SIZE batches
+const parseDelimited = async (
+  chunks: AsyncIterable<Uint8Array>,
+  format: InputFormat,
+  mode: ValidationMode,
+  mapping: ColumnMapping | undefined,
+  collect: (rows: MovementRecord[]) => void
+): Promise<RowValidator | null> => {
+  const decoder = new TextDecoder('utf-8');
+  const delimiter = format.delimiter!;
+  let header: string | null = null;
+  let validator: RowValidator | null = null;
+  let carry = '';
+
+  const emitLines = (text: string) => {
+    const lines = text.split('\n');
+    if (header === null) {
+      header = lines.shift() ?? '';
+      let columns = parseHeaderColumns(header.replace(/\r$/, ''), delimiter);
+      // A mapped file is read by rewriting its header, so the rows parse exactly as a standard export
+      if (mapping) {
+        columns = renameColumns(columns, mapping);
+        header = formatHeaderColumns(columns, delimiter);
+      }
+      validator = createRowValidator(columns, mode);
+    }
+    if (lines.length === 0) return;
+
+    // Prepend the header so each slice is a self-contained document
+    collect(parseMovementData(`${header}\n${lines.join('\n')}`, validator!, delimiter));
+  };
+
+  for await (const chunk of chunks) {
+    carry += decoder.decode(chunk, { stream: true });
+    if (carry.length < CHUNK_SIZE) continue;
+
+    // Keep the trailing partial line for the next slice
+    const lastBreak = carry.lastIndexOf('\n');
+    if (lastBreak === -1) continue;
+    const text = carry.slice(0, lastBreak);
+    carry = carry.slice(lastBreak + 1);
+    emitLines(text);
+  }
+
+  carry += decoder.decode();
+  if (carry.trim()) {
+    emitLines(carry);
+  }
+
+  return validator;
+};
+
+// Opens a file (or the table inside an archive) and detects its format from the name or first chunk
+const openTable = async (file: File, onRead: (bytes: number) => void) => {
+  // Zip and gzip archives are inflated on the fly; onRead counts the compressed bytes read
+  const input = await openMovementInput(file);
+  const reader = input.stream(onRead).getReader();
+
+  // The first chunk decides the format when the file name does not
+  const first = await reader.read();
+  const head = first.value ?? new Uint8Array();
+  const format = detectInputFormat(input.entryName, head);
+
+  async function* chunks() {
+    if (first.done) return;
+    yield head;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  }
+
+  return { input, reader, format, chunks };
+};
+
+const readWhole = async (chunks: AsyncIterable<Uint8Array>, onChunk?: () => void): Promise<Uint8Array> => {
+  const buffered: Uint8Array[] = [];
+  let total = 0;
+  for await (const chunk of chunks) {
+    buffered.push(chunk);
+    total += chunk.byteLength;
+    onChunk?.();
+  }
+  return concatChunks(buffered, total);
+};
+
+// Reads just the header and first rows so non-standard columns can be mapped before parsing
+const previewFile = async (file: File) => {
+  const { input, reader, format, chunks } = await openTable(file, () => {});
+  const preview: FilePreview = { format: format.id, entryName: input.entryName, columns: [], rows: [] };
+
+  if (format.delimiter) {
+    const decoder = new TextDecoder('utf-8');
+    let text = '';
+    let complete = true;
+    for await (const chunk of chunks()) {
+      text += decoder.decode(chunk, { stream: true });
+      if (text.split('\n').length > PREVIEW_ROWS + 1) {
+        complete = false;
+        break;
+      }
+    }
+    await reader.cancel();
+    // Drop a trailing partial line when the read stopped early
+    if (!complete) text = text.slice(0, text.lastIndexOf('\n'));
+    const lines = text.split('\n').slice(0, PREVIEW_ROWS + 1).join('\n');
+    const [columns = [], ...rows] = parseDelimitedRows(lines, format.delimiter);
+    preview.columns = columns;
+    preview.rows = rows.filter(r => r.some(cell => cell !== ''));
+  } else {
+    const { rows, columns } = await format.readPreview!({ chunks: chunks(), file: input.kind === 'plain' ? file : undefined }, PREVIEW_ROWS);
+    await reader.cancel();
+    preview.columns = columns;
+    preview.rows = rows.slice(0, PREVIEW_ROWS).map(r => columns.map(c => r[c] ?? ''));
+  }
+
+  post({ type: 'preview', preview });
+};
+
+const parseFile = async (file: File, mode: ValidationMode, mapping?: ColumnMapping) => {
+  const progress: IngestProgress = { bytesRead: 0, totalBytes: 0, rows: 0 };
+  const { input, format, chunks } = await openTable(file, (bytes) => { progress.bytesRead += bytes; });
+  progress.totalBytes = input.compressedBytes;
+
+  // Rows go straight into the columnar store as each chunk is parsed, rather than being held as objects
+  const builder = createMovementDatasetBuilder();
+  let validator: RowValidator | null = null;
+
+  const collect = (rows: MovementRecord[]) => {
+    builder.add(rows);
+    progress.rows += rows.length;
+    post({ type: 'progress', progress: { ...progress } });
+  };
+
+  if (format.delimiter) {
+    validator = await parseDelimited(chunks(), format, mode, mapping, collect);
+  } else {
+    // Whole-document formats (JSON, Parquet) need every byte before the first row can be read
+    let reported = 0;
+    const bytes = await readWhole(chunks(), () => {
+      if (progress.bytesRead - reported >= CHUNK_SIZE) {
+        reported = progress.bytesRead;
+        post({ type: 'progress', progress: { ...progress } });
+      }
+    });
+    const remap = mapping && createRowRemapper(mapping);
+    await format.readRows!(bytes, (rows, columns) => {
+      validator ??= createRowValidator(mapping ? renameColumns(columns, mapping) : columns, mode);
+      collect(parseMovementRows(remap ? rows.map(remap) : rows, validator));
+    });
+  }
+
+  // Sort the columnar store once, then hand its buffers over instead of cloning row objects
+  const dataset = builder.build();
+  const report = (validator ?? createRowValidator([], mode)).report;
+  report.duplicateRows = countDuplicateRows(dataset);
+  report.format = format.id;
+  if (input.kind !== 'plain') report.archiveEntry = input.entryName;
+  if (mapping) report.columnMapping = mapping;
+  post({ type: 'done', dataset, report, progress: { ...progress } }, getTransferables(dataset));
+};
+
+self.onmessage = (e: MessageEvent<ParserWorkerRequest>) => {
+  const request = e.data;
+  const task = request.type === 'preview'
+    ? previewFile(request.file)
+    : parseFile(request.file, request.mode, request.mapping);
+  task.catch((error) => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+};
@@ -0,0 +1,72 @@
+import { RegionStats } from '../types';
+import { fillDateGaps } from './aggregationService';
+import { movingAverage } from './smoothingService';
+import { RegionCurves } from './similarityService';
+
+// Mobility within this distance of the baseline counts as normal: before the drop, and again once recovered
+export const RECOVERY_BAND = 0.1;
+
+// Phases are read from a centred weekly mean, so weekend dips are not taken for the trough or a recovery
+const PHASE_WINDOW = 7;
+
+// How far and how fast a mobility curve fell below its baseline, and when it came back
+export interface PhaseMetrics {
+  troughDate: string;
+  depth: number; // weekly mean mobility at the trough, against the baseline
+  onsetDate: string | null; // last day within the band before the trough; null if it never fell out of the band, or fell before the range
+  daysToTrough: number | null; // onset to trough
+  recoveryDate: string | null; // first day back within the band after the trough; null if it never fell out, or has not recovered
+  daysToRecovery: number | null; // trough to recovery
+  areaUnderBaseline: number; // daily shortfalls below the baseline summed, in days of all movement lost
+}
+
+export const calculatePhaseMetrics = (points: { ds: string; value: number | null }[]): PhaseMetrics | null => {
+  const days = fillDateGaps(points, ds => ({ ds, value: null }));
+  const smoothed = movingAverage(days.map(d => d.value), PHASE_WINDOW, 'centred');
+
+  let trough = -1;
+  smoothed.forEach((v, i) => {
+    if (v !== null && (trough === -1 || v < smoothed[trough]!)) trough = i;
+  });
+  if (trough === -1) return null;
+
+  const inBand = (i: number) => smoothed[i] !== null && smoothed[i]! >= -RECOVERY_BAND;
+  const dropped = !inBand(trough);
+  let onset = -1;
+  let recovery = -1;
+  if (dropped) {
+    for (let i = trough - 1; i >= 0 && onset === -1; i--) if (inBand(i)) onset = i;
+    for (let i = trough + 1; i < days.length && recovery === -1; i++) if (inBand(i)) recovery = i;
+  }
+
+  const areaUnderBaseline = days.reduce((sum, d) => (d.value !== null && d.value < 0 ? sum - d.value : sum), 0);
+
+  return {
+    troughDate: days[trough].ds,
+    depth: smoothed[trough]!,
+    onsetDate: onset === -1 ? null : days[onset].ds,
+    daysToTrough: onset === -1 ? null : trough - onset,
+    recoveryDate: recovery === -1 ? null : days[recovery].ds,
+    daysToRecovery: recovery === -1 ? null : recovery - trough,
+    areaUnderBaseline,
+  };
+};
+
+// Matrix rows with the phase metrics of each region's mobility curve filled in
+export const withPhaseMetrics = (matrix: RegionStats[], curves: RegionCurves): RegionStats[] => {
+  const indexOf = new Map(curves.regions.map((r, i) => [r.key, i]));
+  return matrix.map(region => {
+    const r = indexOf.get(region.key);
+    const metrics = r === undefined
+      ? null
+      : calculatePhaseMetrics(curves.dates.map((ds, d) => ({ ds, value: curves.values[r][d] })));
+    return {
+      ...region,
+      troughDate: metrics?.troughDate ?? null,
+      depth: metrics?.depth ?? null,
+      daysToTrough: metrics?.daysToTrough ?? null,
+      recoveryDate: metrics?.recoveryDate ?? null,
+      areaUnderBaseline: metrics?.areaUnderBaseline ?? null,
+    };
+  });
+};
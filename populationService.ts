@@ -0,0 +1,54 @@
+import { MovementDataset, PopulationTable } from '../types';
+import { findColumn, readTableFile } from './formatService';
+
+const ID_COLUMNS = ['polygon_id', 'gadm_id', 'region_id', 'admin_id', 'geo_id', 'id'];
+const POPULATION_COLUMNS = ['population', 'pop', 'total_population', 'population_total', 'pop_total'];
+
+// Reads a polygon_id → population table (CSV, TSV, JSON or Parquet). Rows without a positive population are skipped.
+export const parsePopulationTable = async (file: File, polygonIds: Set<string>): Promise<PopulationTable> => {
+  const { rows, columns } = await readTableFile(file);
+  const idColumn = findColumn(columns, ID_COLUMNS);
+  const populationColumn = findColumn(columns, POPULATION_COLUMNS);
+  if (!idColumn || !populationColumn) {
+    throw new Error('Expected a polygon_id column and a population column.');
+  }
+
+  const byPolygon = new Map<string, number>();
+  rows.forEach(row => {
+    const id = row[idColumn]?.trim();
+    const population = Number(row[populationColumn]);
+    if (id && Number.isFinite(population) && population > 0) byPolygon.set(id, population);
+  });
+
+  let matched = 0;
+  byPolygon.forEach((_, id) => { if (polygonIds.has(id)) matched++; });
+  if (matched === 0) throw new Error('None of the rows share a polygon_id with the loaded data.');
+
+  return { name: file.name, byPolygon, matched };
+};
+
+// Weight of each listed polygon: its population, or the mean of the known ones when it is missing.
+// Null when none of them has a population, so callers fall back to a plain mean.
+export const getPolygonWeights = (
+  data: MovementDataset,
+  polygonIdx: number[],
+  population: PopulationTable
+): { weights: Float64Array; populated: number } | null => {
+  const weights = new Float64Array(polygonIdx.length);
+  let populated = 0;
+  let total = 0;
+  polygonIdx.forEach((p, i) => {
+    const value = population.byPolygon.get(data.polygons[p].polygon_id);
+    if (value === undefined) return;
+    weights[i] = value;
+    populated++;
+    total += value;
+  });
+  if (populated === 0) return null;
+
+  const fallback = total / populated;
+  polygonIdx.forEach((p, i) => {
+    if (!population.byPolygon.has(data.polygons[p].polygon_id)) weights[i] = fallback;
+  });
+  return { weights, populated };
+};
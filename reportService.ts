@@ -0,0 +1,99 @@
+import { AggregateResult, RegionStats, TrendPoint } from '../types';
+import { averageCoverage, averageOfRegions } from './aggregationService';
+
+// Regions listed in each of the report's top and bottom tables
+export const REPORT_REGION_COUNT = 5;
+
+// Days averaged for the start and end of the period
+const PERIOD_EDGE_DAYS = 7;
+
+export interface CountryReportContent {
+  findings: string[];
+  topRegions: RegionStats[]; // highest average mobility first
+  bottomRegions: RegionStats[]; // lowest average mobility first
+}
+
+const percent = (value: number) => `${Math.abs(value * 100).toFixed(1)}%`;
+
+// -0.234 → "23.4% below baseline"
+export const describeBaselineChange = (value: number): string => {
+  if (Math.abs(value) < 0.0005) return 'at baseline';
+  return `${percent(value)} ${value < 0 ? 'below' : 'above'} baseline`;
+};
+
+const meanMobility = (points: TrendPoint[]): number | null => {
+  const values = points.map(p => p.avgMobility).filter((v): v is number => v !== null);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+};
+
+// Regions ranked by average mobility; with fewer than twice REPORT_REGION_COUNT regions the tables split them rather than repeat
+export const rankRegions = (matrix: RegionStats[], count = REPORT_REGION_COUNT) => {
+  const ranked = matrix
+    .filter(r => r.avgMobility !== null)
+    .sort((a, b) => a.avgMobility! - b.avgMobility!);
+  const bottomRegions = ranked.slice(0, Math.min(count, Math.ceil(ranked.length / 2)));
+  const topRegions = ranked.slice(Math.max(bottomRegions.length, ranked.length - count)).reverse();
+  return { topRegions, bottomRegions };
+};
+
+// The written findings of a country briefing, each a plain sentence built from the aggregate
+export const buildCountryReport = (country: string, aggregate: AggregateResult): CountryReportContent => {
+  const { trend, matrix } = aggregate;
+  const { topRegions, bottomRegions } = rankRegions(matrix);
+  const findings: string[] = [];
+
+  const avgMobility = averageOfRegions(matrix, 'avgMobility');
+  if (avgMobility !== null && trend.length > 0) {
+    findings.push(
+      `Across ${aggregate.totalRegions} regions of ${country}, mobility averaged ${describeBaselineChange(avgMobility)} ` +
+      `between ${trend[0].ds} and ${trend[trend.length - 1].ds}.`
+    );
+  }
+
+  const lowest = bottomRegions[0];
+  const highest = topRegions[0];
+  if (lowest && highest && lowest !== highest) {
+    findings.push(
+      `Mobility was lowest in ${lowest.name} (${describeBaselineChange(lowest.avgMobility!)}) ` +
+      `and highest in ${highest.name} (${describeBaselineChange(highest.avgMobility!)}).`
+    );
+  }
+
+  const trough = trend.reduce<TrendPoint | null>(
+    (min, t) => (t.avgMobility !== null && (min === null || t.avgMobility < min.avgMobility!) ? t : min),
+    null
+  );
+  if (trough) {
+    findings.push(`The country-wide low came on ${trough.ds}, at ${describeBaselineChange(trough.avgMobility!)}.`);
+  }
+
+  if (trend.length >= PERIOD_EDGE_DAYS * 2) {
+    const first = meanMobility(trend.slice(0, PERIOD_EDGE_DAYS));
+    const last = meanMobility(trend.slice(-PERIOD_EDGE_DAYS));
+    if (first !== null && last !== null) {
+      findings.push(
+        `Over the last ${PERIOD_EDGE_DAYS} days mobility averaged ${describeBaselineChange(last)}, ` +
+        `against ${describeBaselineChange(first)} in the first ${PERIOD_EDGE_DAYS}.`
+      );
+    }
+  }
+
+  const avgStay = averageOfRegions(matrix, 'avgStay');
+  if (avgStay !== null) {
+    const peak = matrix.reduce<RegionStats | null>(
+      (max, r) => (r.maxStay !== null && (max === null || r.maxStay > max.maxStay!) ? r : max),
+      null
+    );
+    findings.push(
+      `On average ${percent(avgStay)} of people stayed within a single tile` +
+      (peak ? `, peaking at ${percent(peak.maxStay!)} in ${peak.name}.` : '.')
+    );
+  }
+
+  const coverage = averageCoverage(trend);
+  if (trend.length > 0 && coverage < 0.9) {
+    findings.push(`Only ${(coverage * 100).toFixed(0)}% of regions reported on an average day, so daily figures rest on partial data.`);
+  }
+
+  return { findings, topRegions, bottomRegions };
+};
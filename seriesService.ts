@@ -0,0 +1,84 @@
+import { NormalizedDataPoint, RegionEntry, SeriesSelection, SeriesSpec } from '../types';
+import { WHOLE_COUNTRY_OPTION } from './aggregationService';
+
+// Distinct hues in the order series are added; the first two match the original primary/compare colours
+export const SERIES_COLORS = [
+  '#3b82f6', '#f97316', '#9333ea', '#059669', '#e11d48',
+  '#0891b2', '#ca8a04', '#4f46e5', '#db2777', '#65a30d',
+];
+
+export const MAX_SERIES = SERIES_COLORS.length;
+
+export const seriesColor = (index: number): string => SERIES_COLORS[index % SERIES_COLORS.length];
+
+export const seriesLabel = (s: SeriesSpec, regionsOf: (country: string) => RegionEntry[]): string =>
+  s.region === WHOLE_COUNTRY_OPTION ? `${s.country} (Avg)` : regionsOf(s.country).find(r => r.key === s.region)?.name ?? s.region;
+
+let nextSeriesId = 0;
+
+export const createSeries = (country: string, region = WHOLE_COUNTRY_OPTION, hidden = false): SeriesSelection => ({
+  id: `s${(nextSeriesId++).toString(36)}`,
+  country,
+  region,
+  hidden,
+});
+
+// A new series continues from the last one: the next region of the same country not yet shown,
+// otherwise the next country's average
+export const suggestNextSeries = (
+  series: SeriesSpec[],
+  countries: string[],
+  regionsOf: (country: string) => RegionEntry[]
+): SeriesSelection => {
+  const last = series[series.length - 1];
+  const country = last?.country ?? countries[0] ?? '';
+  const used = new Set(series.filter(s => s.country === country).map(s => s.region));
+  const regions = regionsOf(country).map(r => r.key);
+  const start = Math.max(0, regions.indexOf(last?.region ?? '') + 1);
+  const region = [...regions.slice(start), ...regions.slice(0, start)].find(r => !used.has(r));
+  if (region) return createSeries(country, region);
+
+  const nextCountry = countries[(countries.indexOf(country) + 1) % Math.max(1, countries.length)] ?? country;
+  return createSeries(nextCountry);
+};
+
+// Files can be added or removed while the dashboard is open; series pointing at countries or regions that
+// no longer exist fall back to the first country or the country average. Returns the same array when nothing changed.
+export const sanitizeSeries = <T extends SeriesSpec>(
+  series: T[],
+  countries: string[],
+  regionsOf: (country: string) => RegionEntry[]
+): T[] => {
+  let changed = false;
+  const next = series.map(s => {
+    const country = countries.includes(s.country) ? s.country : countries[0] ?? '';
+    const regions = regionsOf(country);
+    const region = s.region === WHOLE_COUNTRY_OPTION || regions.some(r => r.key === s.region) ? s.region : WHOLE_COUNTRY_OPTION;
+    if (country === s.country && region === s.region) return s;
+    changed = true;
+    return { ...s, country, region };
+  });
+  return changed ? next : series;
+};
+
+// One row per day with mobility_<i> and stay_<i> for each series, as the comparison charts expect
+export interface ComparisonRow {
+  ds: string;
+  [key: string]: string | number | null;
+}
+
+export const mergeSeriesByDate = (seriesPoints: NormalizedDataPoint[][]): ComparisonRow[] => {
+  const rows = new Map<string, ComparisonRow>();
+  seriesPoints.forEach((points, i) => {
+    points.forEach(p => {
+      let row = rows.get(p.ds);
+      if (!row) {
+        row = { ds: p.ds };
+        rows.set(p.ds, row);
+      }
+      row[`mobility_${i}`] = p.mobility;
+      row[`stay_${i}`] = p.stay;
+    });
+  });
+  return Array.from(rows.values()).sort((a, b) => (a.ds < b.ds ? -1 : a.ds > b.ds ? 1 : 0));
+};
@@ -0,0 +1,186 @@
+import { DateRange, MovementDataset, MovementMetric, RegionEntry } from '../types';
+import { getDateCodeRange } from './aggregationService';
+import { getCountryRegions } from './movementDataset';
+
+// Every region of a country on one shared list of dates
+export interface RegionCurves {
+  dates: string[];
+  regions: RegionEntry[];
+  values: (number | null)[][]; // [region][date]
+}
+
+export interface SimilarRegion {
+  region: RegionEntry;
+  correlation: number;
+  overlap: number; // days both regions reported
+}
+
+export interface RegionCluster {
+  regions: RegionEntry[];
+  mean: (number | null)[]; // average of the members' values on each date
+}
+
+// Days two curves must share before their correlation is trusted
+const MIN_OVERLAP = 14;
+
+const KMEANS_ITERATIONS = 50;
+
+export const getRegionCurves = (
+  data: MovementDataset,
+  country: string,
+  metric: MovementMetric,
+  range?: DateRange | null
+): RegionCurves => {
+  const [loCode, hiCode] = getDateCodeRange(data, range);
+  const dayCount = Math.max(0, hiCode - loCode + 1);
+  const column = metric === 'mobility' ? data.mobility : data.stay;
+
+  const regions = getCountryRegions(data, country);
+  return {
+    dates: data.dates.slice(loCode, hiCode + 1),
+    regions,
+    values: regions.map(region => {
+      const polygon = data.polygons[region.polygon];
+      const values: (number | null)[] = new Array(dayCount).fill(null);
+      for (let i = polygon.rowStart; i < polygon.rowEnd; i++) {
+        const code = data.date[i];
+        if (code >= loCode && code <= hiCode && !isNaN(column[i])) values[code - loCode] = column[i];
+      }
+      return values;
+    }),
+  };
+};
+
+// Pearson correlation over the days both curves reported; null when they share fewer than MIN_OVERLAP days
+export const correlateCurves = (a: (number | null)[], b: (number | null)[]): { correlation: number; overlap: number } | null => {
+  let n = 0;
+  let sa = 0, sb = 0, saa = 0, sbb = 0, sab = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === null || y === null) continue;
+    n++;
+    sa += x; sb += y;
+    saa += x * x; sbb += y * y; sab += x * y;
+  }
+  if (n < MIN_OVERLAP) return null;
+  const cov = sab - (sa * sb) / n;
+  const va = saa - (sa * sa) / n;
+  const vb = sbb - (sb * sb) / n;
+  if (va <= 0 || vb <= 0) return null;
+  return { correlation: cov / Math.sqrt(va * vb), overlap: n };
+};
+
+// The regions whose curves rise and fall most like the target's, highest correlation first
+export const findSimilarRegions = (curves: RegionCurves, target: string, count = 10): SimilarRegion[] => {
+  const t = curves.regions.findIndex(r => r.key === target);
+  if (t === -1) return [];
+  const similar: SimilarRegion[] = [];
+  curves.regions.forEach((region, i) => {
+    if (i === t) return;
+    const result = correlateCurves(curves.values[t], curves.values[i]);
+    if (result) similar.push({ region, ...result });
+  });
+  return similar.sort((a, b) => b.correlation - a.correlation).slice(0, count);
+};
+
+// Each curve as z-scores with missing days at 0 (its mean). Squared distance between two such vectors
+// falls as their correlation rises, so k-means on them groups regions by the shape of their curves.
+const standardize = (values: (number | null)[]): Float64Array | null => {
+  const reported = values.filter((v): v is number => v !== null);
+  if (reported.length < MIN_OVERLAP) return null;
+  const mean = reported.reduce((a, b) => a + b, 0) / reported.length;
+  const sd = Math.sqrt(reported.reduce((a, v) => a + (v - mean) ** 2, 0) / reported.length);
+  if (sd === 0) return null;
+  return Float64Array.from(values, v => (v === null ? 0 : (v - mean) / sd));
+};
+
+const squaredDistance = (a: Float64Array, b: Float64Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return sum;
+};
+
+// Seeded so the same data always gives the same groups
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+// Groups a country's regions by curve shape with k-means (k-means++ starts). Regions with too few
+// reported days are left out. Groups are returned largest first.
+export const clusterRegions = (curves: RegionCurves, k: number): { clusters: RegionCluster[]; unclustered: RegionEntry[] } => {
+  const members: number[] = [];
+  const vectors: Float64Array[] = [];
+  const unclustered: RegionEntry[] = [];
+  curves.values.forEach((values, i) => {
+    const v = standardize(values);
+    if (v) {
+      members.push(i);
+      vectors.push(v);
+    } else {
+      unclustered.push(curves.regions[i]);
+    }
+  });
+  if (vectors.length === 0) return { clusters: [], unclustered };
+  k = Math.min(k, vectors.length);
+
+  const random = seededRandom(1);
+  const centroids: Float64Array[] = [Float64Array.from(vectors[Math.floor(random() * vectors.length)])];
+  while (centroids.length < k) {
+    const nearest = vectors.map(v => Math.min(...centroids.map(c => squaredDistance(v, c))));
+    const total = nearest.reduce((a, b) => a + b, 0);
+    let pick = random() * total;
+    let next = nearest.findIndex(d => (pick -= d) <= 0);
+    if (next === -1 || total === 0) next = nearest.indexOf(Math.max(...nearest));
+    centroids.push(Float64Array.from(vectors[next]));
+  }
+
+  const assignment = new Int32Array(vectors.length).fill(-1);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    let changed = false;
+    vectors.forEach((v, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((c, j) => {
+        const d = squaredDistance(v, c);
+        if (d < bestDistance) {
+          best = j;
+          bestDistance = d;
+        }
+      });
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+    centroids.forEach((c, j) => {
+      const assigned = vectors.filter((_, i) => assignment[i] === j);
+      if (assigned.length === 0) return;
+      c.fill(0);
+      assigned.forEach(v => v.forEach((x, d) => { c[d] += x / assigned.length; }));
+    });
+  }
+
+  const clusters: RegionCluster[] = centroids.map((_, j) => {
+    const indexes = members.filter((_, i) => assignment[i] === j);
+    const mean = curves.dates.map((_, d) => {
+      let sum = 0;
+      let count = 0;
+      indexes.forEach(r => {
+        const v = curves.values[r][d];
+        if (v === null) return;
+        sum += v;
+        count++;
+      });
+      return count > 0 ? sum / count : null;
+    });
+    return { regions: indexes.map(r => curves.regions[r]), mean };
+  });
+
+  return {
+    clusters: clusters.filter(c => c.regions.length > 0).sort((a, b) => b.regions.length - a.regions.length),
+    unclustered,
+  };
+};
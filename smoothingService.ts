@@ -0,0 +1,94 @@
+import { SmoothingConfig } from '../types';
+import { daysBetween } from './aggregationService';
+
+export const NO_SMOOTHING: SmoothingConfig = { window: 1, alignment: 'centred', weekdayAdjust: false };
+
+export const SMOOTHING_WINDOWS = [1, 3, 7, 14, 28];
+
+export const isSmoothing = (config: SmoothingConfig): boolean => config.window > 1 || config.weekdayAdjust;
+
+// "7-day centred average, weekday-adjusted", for exported chart metadata
+export const describeSmoothing = (config: SmoothingConfig): string => {
+  if (!isSmoothing(config)) return 'Daily values';
+  const parts = config.window > 1 ? [`${config.window}-day ${config.alignment} average`] : ['Daily values'];
+  if (config.weekdayAdjust) parts.push('weekday-adjusted');
+  return parts.join(', ');
+};
+
+// Smoothed rows keep the daily value of each key under <key>_raw for tooltips
+export const rawKey = (key: string): string => `${key}_raw`;
+
+// Mean of the reported values in each day's window. By default a window needs at least half of its days
+// reported, so the ends of a series and long gaps stay empty rather than resting on one or two values.
+export const movingAverage = (
+  values: (number | null)[],
+  window: number,
+  alignment: SmoothingConfig['alignment'],
+  minCount = Math.ceil(window / 2)
+): (number | null)[] => {
+  const before = alignment === 'trailing' ? window - 1 : Math.floor((window - 1) / 2);
+  const after = window - 1 - before;
+
+  const sums = new Float64Array(values.length + 1);
+  const counts = new Uint32Array(values.length + 1);
+  values.forEach((v, i) => {
+    sums[i + 1] = sums[i] + (v ?? 0);
+    counts[i + 1] = counts[i] + (v === null ? 0 : 1);
+  });
+
+  return values.map((_, i) => {
+    const lo = Math.max(0, i - before);
+    const hi = Math.min(values.length - 1, i + after);
+    const count = counts[hi + 1] - counts[lo];
+    return count >= minCount ? (sums[hi + 1] - sums[lo]) / count : null;
+  });
+};
+
+// Subtracts each weekday's average departure from the centred 7-day mean. The effects sum to zero,
+// so the level of the series is unchanged. values[i] falls on weekday (firstWeekday + i) % 7.
+export const removeWeekdayPattern = (values: (number | null)[], firstWeekday: number): (number | null)[] => {
+  // Only complete weeks, otherwise partial windows at the ends would leak the pattern into the estimate
+  const trend = movingAverage(values, 7, 'centred', 7);
+  const sums = new Array(7).fill(0);
+  const counts = new Array(7).fill(0);
+  values.forEach((v, i) => {
+    if (v === null || trend[i] === null) return;
+    const day = (firstWeekday + i) % 7;
+    sums[day] += v - trend[i]!;
+    counts[day]++;
+  });
+
+  const effects = sums.map((sum, day) => (counts[day] > 0 ? sum / counts[day] : 0));
+  const mean = effects.reduce((a, b) => a + b, 0) / 7;
+  return values.map((v, i) => (v === null ? null : v - (effects[(firstWeekday + i) % 7] - mean)));
+};
+
+// Smooths the given keys of date-sorted chart rows, such as getNormalizedSeries points, a country
+// aggregate's trend or merged comparison rows. Rows are laid out by calendar day first, so gaps and
+// series that start on different days keep their spacing. Returns the rows unchanged when smoothing is off.
+export const smoothRows = <T extends { ds: string }>(rows: T[], keys: string[], config: SmoothingConfig): T[] => {
+  if (!isSmoothing(config) || rows.length === 0) return rows;
+
+  const first = rows[0].ds;
+  const offsets = rows.map(r => daysBetween(first, r.ds));
+  const firstWeekday = new Date(`${first}T00:00:00Z`).getUTCDay();
+  const smoothed = rows.map(r => ({ ...r })) as (T & Record<string, unknown>)[];
+
+  keys.forEach(key => {
+    const daily: (number | null)[] = new Array(offsets[offsets.length - 1] + 1).fill(null);
+    rows.forEach((r, i) => {
+      const value = (r as Record<string, unknown>)[key];
+      daily[offsets[i]] = typeof value === 'number' ? value : null;
+    });
+
+    const adjusted = config.weekdayAdjust ? removeWeekdayPattern(daily, firstWeekday) : daily;
+    const averaged = config.window > 1 ? movingAverage(adjusted, config.window, config.alignment) : adjusted;
+
+    smoothed.forEach((r, i) => {
+      (r as Record<string, unknown>)[rawKey(key)] = daily[offsets[i]];
+      (r as Record<string, unknown>)[key] = averaged[offsets[i]];
+    });
+  });
+
+  return smoothed;
+};
@@ -0,0 +1,34 @@
+import { DataSource, DedupeRule, MovementDataset } from '../types';
+import { mergeMovementDatasets } from './movementDataset';
+
+export const DEDUPE_RULE_LABELS: Record<DedupeRule, string> = {
+  newest: 'Latest data wins',
+  first: 'First loaded wins',
+};
+
+export const getSourceDateSpan = (source: DataSource): { start: string; end: string } | null => {
+  const { dates } = source.dataset;
+  return dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null;
+};
+
+// "Latest data" is the file whose data reaches the latest date, i.e. the most recent Movement Range drop,
+// whatever order the files were loaded in. Files ending on the same day fall back to the one loaded last.
+const orderSources = (sources: DataSource[], rule: DedupeRule): DataSource[] => {
+  if (rule === 'first') {
+    return [...sources].sort((a, b) => a.loadedAt - b.loadedAt);
+  }
+  return [...sources].sort((a, b) => {
+    const aEnd = getSourceDateSpan(a)?.end ?? '';
+    const bEnd = getSourceDateSpan(b)?.end ?? '';
+    if (aEnd !== bEnd) return aEnd < bEnd ? 1 : -1;
+    return b.loadedAt - a.loadedAt;
+  });
+};
+
+export const mergeSources = (sources: DataSource[], rule: DedupeRule): MovementDataset | null => {
+  if (sources.length === 0) return null;
+  return mergeMovementDatasets(orderSources(sources, rule).map(s => s.dataset));
+};
+
+export const createSourceId = (file: { name: string; size: number }): string =>
+  `${file.name}-${file.size}-${Date.now().toString(36)}`;
@@ -4,12 +4,206 @@ export interface MovementRecord {
   polygon_source: string;
   polygon_id: string;
   polygon_name: string;
-  all_day_bing_tiles_visited_relative_change: number;
-  all_day_ratio_single_tile_users: number;
+  all_day_bing_tiles_visited_relative_change: number | null; // null when the source value is missing
+  all_day_ratio_single_tile_users: number | null;
   baseline_name: string;
   baseline_type: string;
 }
 
+export interface PolygonEntry {
+  country: number; // index into MovementDataset.countries
+  polygon_source: string;
+  polygon_id: string;
+  polygon_name: string;
+  // Rows for this polygon live in [rowStart, rowEnd), sorted by date
+  rowStart: number;
+  rowEnd: number;
+}
+
+export interface BaselineEntry {
+  baseline_name: string;
+  baseline_type: string;
+}
+
+// Column-oriented view of a Movement Range file. Rows are grouped by polygon and sorted by date,
+// so any polygon (and therefore any country) can be read without scanning the whole file.
+export interface MovementDataset {
+  rowCount: number;
+
+  // Dictionaries
+  dates: string[]; // ascending YYYY-MM-DD
+  countries: string[]; // ascending
+  polygons: PolygonEntry[];
+  baselines: BaselineEntry[];
+
+  // Per-row columns
+  date: Uint16Array;
+  country: Uint16Array;
+  polygon: Uint32Array;
+  baseline: Uint16Array;
+  mobility: Float32Array; // NaN marks a missing value
+  stay: Float32Array;
+
+  // Indexes
+  polygonsByCountry: number[][]; // country index -> polygon indexes
+}
+
+// Which file's row is kept when two loaded files both cover the same (ds, polygon_id)
+export type DedupeRule = 'newest' | 'first';
+
+export interface DataSource {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  loadedAt: number;
+  dataset: MovementDataset;
+  report: ParseReport;
+  cacheKey?: string; // IndexedDB key when the parsed dataset is cached
+}
+
+// Listing entry for a parsed dataset kept in IndexedDB; the dataset itself is stored separately
+export interface CachedDatasetEntry {
+  key: string;
+  fileName: string;
+  fileSize: number;
+  hash: string;
+  mode: ValidationMode;
+  rowCount: number;
+  byteSize: number; // size of the stored columns
+  dateSpan: { start: string; end: string } | null;
+  cachedAt: number;
+  lastOpenedAt: number;
+}
+
+// A region is one polygon, identified within its country by polygon_source and polygon_id.
+// Names can repeat inside a country, so they are only display labels.
+export interface RegionEntry {
+  key: string; // "<polygon_source>:<polygon_id>"
+  name: string; // polygon_name, with the polygon_id appended when another region shares it
+  polygon: number; // index into MovementDataset.polygons
+}
+
+export interface RegionStats {
+  key: string; // RegionEntry.key
+  name: string;
+  avgMobility: number | null;
+  avgStay: number | null;
+  maxStay: number | null;
+  minMobility: number | null;
+  dataPoints: number;
+  coverage: number; // share of the days in range that have a mobility value
+  weight?: number; // population of the region's polygon, when the country average is population-weighted
+  // Lockdown phase of the region's mobility curve, added to matrix rows by withPhaseMetrics
+  troughDate?: string | null;
+  depth?: number | null;
+  daysToTrough?: number | null;
+  recoveryDate?: string | null;
+  areaUnderBaseline?: number | null;
+}
+
+export interface NormalizedDataPoint {
+  ds: string;
+  mobility: number | null;
+  stay: number | null;
+  baseline_type?: string;
+}
+
+export interface TrendPoint {
+  ds: string;
+  avgMobility: number | null;
+  avgStay: number | null;
+  coverage: number; // share of the selection's regions reporting a mobility value that day
+}
+
+// Polygon populations from an auxiliary table, used to weight country averages
+export interface PopulationTable {
+  name: string;
+  byPolygon: Map<string, number>; // polygon_id to population
+  matched: number; // entries whose polygon_id is in the loaded data
+}
+
+// Child-to-parent links between polygons of different administrative levels, from an auxiliary table
+export interface ParentMapping {
+  name: string;
+  parentOf: Map<string, string>; // region key to its parent's region key
+  matched: number; // links whose child and parent are both in the loaded data
+  ambiguous: number; // ids skipped because several polygon sources hold them and the table names no source
+}
+
+// How a country average was weighted; polygons missing from the population table count at the mean weight
+export interface AggregateWeighting {
+  populated: number;
+  fallback: number;
+}
+
+export interface AggregateResult {
+  trend: TrendPoint[];
+  matrix: RegionStats[];
+  totalRegions: number;
+  weighting?: AggregateWeighting; // absent for a plain mean across polygons
+}
+
+export type MovementMetric = 'mobility' | 'stay';
+
+// One polygon's value on a single day, as drawn on the map
+export interface PolygonValue {
+  key: string; // RegionEntry.key
+  polygon_source: string;
+  polygon_id: string;
+  polygon_name: string;
+  value: number | null;
+}
+
+// Inclusive YYYY-MM-DD bounds
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface SortConfig {
+  key: keyof RegionStats;
+  direction: 'asc' | 'desc';
+}
+
+// One line in a comparison: a region, or a whole country's average when region is the whole-country option
+export interface SeriesSelection {
+  id: string;
+  country: string;
+  region: string; // RegionEntry.key, or WHOLE_COUNTRY_OPTION
+  hidden: boolean; // toggled from the legend; hidden series stay in the list
+}
+
+export type SeriesSpec = Omit<SeriesSelection, 'id'>;
+
+// A dated event drawn as a marker on the trend charts. Without a polygon it applies to the whole country.
+export interface EventAnnotation {
+  id: string;
+  ds: string;
+  country: string;
+  polygon_id?: string;
+  label: string;
+  category: string; // e.g. lockdown, schools, holiday; unknown categories are drawn in grey
+}
+
+// Moving-average settings for one trend chart; a window of 1 shows the daily values
+export interface SmoothingConfig {
+  window: number; // days
+  alignment: 'centred' | 'trailing';
+  weekdayAdjust: boolean; // remove the average weekday/weekend pattern before averaging
+}
+
+// Every dashboard selection, as serialised into the URL hash so a view can be shared
+export interface DashboardViewState {
+  viewMode: 'region' | 'country';
+  series: SeriesSpec[]; // Comparative Analysis, first is the primary
+  countryViewCountry: string;
+  countryComparisons: SeriesSpec[]; // Country Overview series drawn against countryViewCountry
+  sortConfig: SortConfig | null;
+  matrixSeries: number; // which Country Overview series the matrix shows, 0 for the primary country
+  dateRange: DateRange | null; // null covers every date in the data
+  sourceByCountry: Record<string, string>; // polygon source picked for countries that mix sources
+}
+
 export interface FilterState {
   selectedCountry: string | null;
   selectedRegion: string | null;
@@ -19,5 +213,69 @@ export interface AggregatedStats {
   avgMobilityChange: number;
   maxStayHomeRatio: number;
   totalRecords: number;
-  dateRange: { start: string; end: string };
+  dateRange: DateRange;
+}
+
+export type ValidationMode = 'strict' | 'lenient';
+
+export type InputFormatId = 'tsv' | 'csv' | 'json' | 'parquet';
+
+// Which source column feeds each MovementRecord field, for files with non-standard headers
+export type ColumnMapping = Partial<Record<keyof MovementRecord, string>>;
+
+export interface SavedColumnMapping {
+  name: string;
+  mapping: ColumnMapping;
+  savedAt: number;
+}
+
+// Header and first rows of a file, read before parsing so its columns can be mapped
+export interface FilePreview {
+  format: InputFormatId;
+  entryName: string;
+  columns: string[];
+  rows: string[][]; // cells in header order
 }
+
+export interface RowIssue {
+  line: number; // 1-based line in the source file, header included
+  field: string;
+  value: string;
+  problem: 'missing' | 'invalid_date' | 'non_numeric';
+}
+
+// Outcome of validating an uploaded file against the MovementRecord schema
+export interface ParseReport {
+  mode: ValidationMode;
+  columns: string[];
+  missingColumns: string[];
+  unexpectedColumns: string[];
+  totalRows: number;
+  acceptedRows: number;
+  droppedRows: number;
+  invalidDates: number;
+  missingMetrics: Record<string, number>;
+  nonNumericMetrics: Record<string, number>;
+  duplicateRows: number; // repeated (ds, polygon_id) pairs
+  samples: RowIssue[];
+  archiveEntry?: string; // the table that was read when the upload was a zip or gzip archive
+  format?: InputFormatId;
+  columnMapping?: ColumnMapping; // set when the file was read through a column mapping
+}
+
+export interface IngestProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+}
+
+// Messages exchanged with the streaming parser worker
+export type ParserWorkerRequest =
+  | { type: 'parse'; file: File; mode: ValidationMode; mapping?: ColumnMapping }
+  | { type: 'preview'; file: File };
+
+export type ParserWorkerMessage =
+  | { type: 'progress'; progress: IngestProgress }
+  | { type: 'done'; dataset: MovementDataset; report: ParseReport; progress: IngestProgress }
+  | { type: 'preview'; preview: FilePreview }
+  | { type: 'error'; message: string };
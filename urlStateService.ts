@@ -0,0 +1,124 @@
+import { DashboardViewState, DateRange, RegionStats, SeriesSpec, SortConfig } from '../types';
+import { isValidDate } from './validationService';
+import { WHOLE_COUNTRY_OPTION } from './aggregationService';
+
+// Short parameter names keep shared links short
+const PARAMS: Record<keyof DashboardViewState, string> = {
+  viewMode: 'view',
+  series: 's',
+  countryViewCountry: 'oc',
+  countryComparisons: 'os',
+  sortConfig: 'sort',
+  matrixSeries: 'tab',
+  dateRange: 'range',
+  sourceByCountry: 'src',
+};
+
+const SORT_KEYS: (keyof RegionStats)[] = [
+  'name', 'avgMobility', 'avgStay', 'maxStay', 'minMobility', 'dataPoints', 'coverage',
+  'troughDate', 'depth', 'daysToTrough', 'recoveryDate', 'areaUnderBaseline',
+];
+
+const oneOf = <T extends string>(value: string | null, options: readonly T[]): T | undefined =>
+  options.includes(value as T) ? (value as T) : undefined;
+
+const parseSort = (value: string | null): SortConfig | null | undefined => {
+  if (value === null) return undefined;
+  if (value === 'none') return null;
+  const [key, direction] = value.split(':');
+  const validKey = oneOf(key, SORT_KEYS);
+  const validDirection = oneOf(direction ?? 'asc', ['asc', 'desc'] as const);
+  return validKey && validDirection ? { key: validKey, direction: validDirection } : undefined;
+};
+
+// "2020-03-01..2020-05-31"; "all" clears the range
+const parseDateRange = (value: string | null): DateRange | null | undefined => {
+  if (value === null) return undefined;
+  if (value === 'all') return null;
+  const [start, end] = value.split('..');
+  return start && end && isValidDate(start) && isValidDate(end) && start <= end ? { start, end } : undefined;
+};
+
+// URI-encodes a field of a joined list so names may hold the separators. encodeURIComponent leaves "~"
+// and "-" alone, so "~" and a leading "-" (the hidden marker) are escaped here.
+const encodeField = (value: string) => encodeURIComponent(value).replace(/~/g, '%7E').replace(/^-/, '%2D');
+
+// Series are "country~region" joined by "|", the region being its key; an empty region is the country average
+// and a leading "-" hides the series. Country and region are each encoded with encodeField.
+const formatSeries = (series: SeriesSpec[]): string =>
+  series
+    .map(s => `${s.hidden ? '-' : ''}${encodeField(s.country)}~${s.region === WHOLE_COUNTRY_OPTION ? '' : encodeField(s.region)}`)
+    .join('|');
+
+const parseSeries = (value: string | null): SeriesSpec[] | undefined => {
+  if (value === null) return undefined;
+  if (value === '') return [];
+  try {
+    const series: SeriesSpec[] = [];
+    for (const part of value.split('|')) {
+      const hidden = part.startsWith('-');
+      const fields = (hidden ? part.slice(1) : part).split('~').map(decodeURIComponent);
+      if (fields.length !== 2 || !fields[0]) return undefined;
+      series.push({ country: fields[0], region: fields[1] || WHOLE_COUNTRY_OPTION, hidden });
+    }
+    return series;
+  } catch {
+    return undefined; // malformed percent-encoding
+  }
+};
+
+// Picked polygon sources are "country~source" joined by "|", each field encoded with encodeField
+const formatSources = (sourceByCountry: Record<string, string>): string =>
+  Object.entries(sourceByCountry)
+    .map(([country, source]) => `${encodeField(country)}~${encodeField(source)}`)
+    .join('|');
+
+const parseSources = (value: string | null): Record<string, string> | undefined => {
+  if (value === null) return undefined;
+  try {
+    const entries = value.split('|').filter(Boolean).map(part => part.split('~').map(decodeURIComponent));
+    return entries.every(e => e.length === 2 && e[0]) ? Object.fromEntries(entries) : undefined;
+  } catch {
+    return undefined; // malformed percent-encoding
+  }
+};
+
+// Only values that are present and well formed are returned; the dashboard keeps its defaults for
+// the rest and checks countries and regions against the loaded data itself
+export const readViewStateFromHash = (hash = window.location.hash): Partial<DashboardViewState> => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const tab = params.has(PARAMS.matrixSeries) ? Number(params.get(PARAMS.matrixSeries)) : NaN;
+  const state: Partial<DashboardViewState> = {
+    viewMode: oneOf(params.get(PARAMS.viewMode), ['region', 'country'] as const),
+    series: parseSeries(params.get(PARAMS.series)),
+    countryViewCountry: params.get(PARAMS.countryViewCountry) ?? undefined,
+    countryComparisons: parseSeries(params.get(PARAMS.countryComparisons)),
+    sortConfig: parseSort(params.get(PARAMS.sortConfig)),
+    matrixSeries: Number.isInteger(tab) && tab >= 0 ? tab : undefined,
+    dateRange: parseDateRange(params.get(PARAMS.dateRange)),
+    sourceByCountry: parseSources(params.get(PARAMS.sourceByCountry)),
+  };
+  // Drop the keys that were absent or invalid so callers can spread the result over defaults
+  return Object.fromEntries(Object.entries(state).filter(([, v]) => v !== undefined)) as Partial<DashboardViewState>;
+};
+
+export const serializeViewState = (state: DashboardViewState): string => {
+  const params = new URLSearchParams();
+  params.set(PARAMS.viewMode, state.viewMode);
+  params.set(PARAMS.series, formatSeries(state.series));
+  if (state.countryViewCountry) params.set(PARAMS.countryViewCountry, state.countryViewCountry);
+  params.set(PARAMS.countryComparisons, formatSeries(state.countryComparisons));
+  params.set(PARAMS.sortConfig, state.sortConfig ? `${state.sortConfig.key}:${state.sortConfig.direction}` : 'none');
+  params.set(PARAMS.matrixSeries, String(state.matrixSeries));
+  params.set(PARAMS.dateRange, state.dateRange ? `${state.dateRange.start}..${state.dateRange.end}` : 'all');
+  if (Object.keys(state.sourceByCountry).length > 0) params.set(PARAMS.sourceByCountry, formatSources(state.sourceByCountry));
+  return params.toString();
+};
+
+// replaceState rather than assigning location.hash, so each click does not add a history entry
+export const writeViewStateToHash = (state: DashboardViewState) => {
+  const hash = `#${serializeViewState(state)}`;
+  if (hash !== window.location.hash) {
+    window.history.replaceState(null, '', hash);
+  }
+};
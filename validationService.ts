@@ -0,0 +1,126 @@
+import { MovementDataset, MovementRecord, ParseReport, RowIssue, ValidationMode } from '../types';
+import { RawRow } from './formatService';
+
+export const REQUIRED_COLUMNS: (keyof MovementRecord)[] = [
+  'ds',
+  'country',
+  'polygon_source',
+  'polygon_id',
+  'polygon_name',
+  'all_day_bing_tiles_visited_relative_change',
+  'all_day_ratio_single_tile_users',
+  'baseline_name',
+  'baseline_type',
+];
+
+export const METRIC_COLUMNS: (keyof MovementRecord)[] = [
+  'all_day_bing_tiles_visited_relative_change',
+  'all_day_ratio_single_tile_users',
+];
+
+const MAX_SAMPLES = 20;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidDate = (ds: string): boolean => {
+  if (!DATE_PATTERN.test(ds)) return false;
+  // Round-trip so that dates such as 2020-02-31 are not silently rolled over
+  const date = new Date(`${ds}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === ds;
+};
+
+export const isNumeric = (value: string): boolean =>
+  value.trim() !== '' && isFinite(Number(value));
+
+export interface RowValidator {
+  report: ParseReport;
+  // Returns false when the row should be left out of the dataset
+  check: (row: RawRow) => boolean;
+}
+
+// Creates a validator for one file. Rows are checked one at a time so it can run across parser chunks.
+export const createRowValidator = (columns: string[], mode: ValidationMode): RowValidator => {
+  const report: ParseReport = {
+    mode,
+    columns,
+    missingColumns: REQUIRED_COLUMNS.filter(c => !columns.includes(c)),
+    unexpectedColumns: columns.filter(c => !(REQUIRED_COLUMNS as string[]).includes(c)),
+    totalRows: 0,
+    acceptedRows: 0,
+    droppedRows: 0,
+    invalidDates: 0,
+    missingMetrics: Object.fromEntries(METRIC_COLUMNS.map(c => [c, 0])),
+    nonNumericMetrics: Object.fromEntries(METRIC_COLUMNS.map(c => [c, 0])),
+    duplicateRows: 0,
+    samples: [],
+  };
+
+  const flag = (issue: RowIssue) => {
+    if (report.samples.length < MAX_SAMPLES) report.samples.push(issue);
+  };
+
+  const check = (row: RawRow): boolean => {
+    report.totalRows++;
+    const line = report.totalRows + 1;
+
+    // Rows without a usable key cannot be placed on a chart in either mode
+    if (!row.ds || !row.country) {
+      flag({ line, field: !row.ds ? 'ds' : 'country', value: '', problem: 'missing' });
+      report.droppedRows++;
+      return false;
+    }
+    if (!isValidDate(row.ds)) {
+      report.invalidDates++;
+      flag({ line, field: 'ds', value: row.ds, problem: 'invalid_date' });
+      report.droppedRows++;
+      return false;
+    }
+
+    let clean = true;
+    METRIC_COLUMNS.forEach(c => {
+      const value = row[c];
+      if (value === undefined || value === '') {
+        report.missingMetrics[c]++;
+        flag({ line, field: c, value: '', problem: 'missing' });
+        clean = false;
+      } else if (!isNumeric(value)) {
+        report.nonNumericMetrics[c]++;
+        flag({ line, field: c, value, problem: 'non_numeric' });
+        clean = false;
+      }
+    });
+
+    if (!clean && mode === 'strict') {
+      report.droppedRows++;
+      return false;
+    }
+
+    report.acceptedRows++;
+    return true;
+  };
+
+  return { report, check };
+};
+
+// Rows are grouped by polygon and sorted by date, so duplicates sit next to each other
+export const countDuplicateRows = (dataset: MovementDataset): number => {
+  let duplicates = 0;
+  dataset.polygons.forEach(p => {
+    for (let i = p.rowStart + 1; i < p.rowEnd; i++) {
+      if (dataset.date[i] === dataset.date[i - 1]) duplicates++;
+    }
+  });
+  return duplicates;
+};
+
+export const countReportIssues = (report: ParseReport): number =>
+  report.missingColumns.length +
+  report.droppedRows +
+  report.duplicateRows +
+  METRIC_COLUMNS.reduce((sum, c) => sum + report.missingMetrics[c] + report.nonNumericMetrics[c], 0);
+
+// In strict mode the dashboard only opens for a file that matches the schema exactly
+export const canOpenReport = (report: ParseReport, rowCount: number): boolean => {
+  if (rowCount === 0) return false;
+  if (report.mode === 'lenient') return true;
+  return report.missingColumns.length === 0 && report.duplicateRows === 0;
+};
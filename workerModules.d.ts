@@ -0,0 +1,9 @@
+// Types for the libraries the parser worker imports by full URL. Module workers do not inherit the page's
+// importmap, so these URLs must stay the same as the d3-dsv and hyparquet entries in index.html.
+declare module 'https://aistudiocdn.com/d3-dsv@^3.0.1' {
+  export * from 'd3-dsv';
+}
+
+declare module 'https://aistudiocdn.com/hyparquet@^1.31.2' {
+  export * from 'hyparquet';
+}